@@ -4,14 +4,15 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Package, MapPin, Coins, Plus, Minus } from "lucide-react";
+import { Search, Package, MapPin, Coins, Plus, Minus, Clock } from "lucide-react";
 
 export function ApprovedCatalog() {
   const [searchQuery, setSearchQuery] = useState("");
   const [page, setPage] = useState(1);
 
+  const productsParams = new URLSearchParams({ q: searchQuery, page: String(page), pageSize: "12" });
   const { data: products, isLoading } = useQuery({
-    queryKey: ["/api/products", { q: searchQuery, page, pageSize: 12 }],
+    queryKey: [`/api/products?${productsParams}`],
   });
 
   const { data: warehouses } = useQuery({
@@ -20,6 +21,28 @@ export function ApprovedCatalog() {
 
   const productsData = products as any;
   const warehouseData = warehouses as any;
+  // Customer-facing regions come from the server-side regions table
+  const regions: Array<{ id: number; code: string; name: string }> =
+    Array.isArray(warehouseData?.warehouses) && warehouseData.warehouses.length
+      ? warehouseData.warehouses
+      : [
+          { id: 1, code: "JHB", name: "JHB Warehouse" },
+          { id: 2, code: "CPT", name: "CPT Warehouse" },
+          { id: 3, code: "BFN", name: "BFN Warehouse" },
+        ];
+
+  // Cin7 unreachable: stock comes from the last successful sync
+  const stale = !!(productsData?.stale || warehouseData?.stale);
+  const lastSyncedAt = productsData?.lastSyncedAt || warehouseData?.lastSyncedAt;
+  const syncedTime = lastSyncedAt
+    ? new Date(lastSyncedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", hour12: false })
+    : null;
+
+  const regionStock = (product: any, code: string) => {
+    const fromServer = product.regions?.find((r: any) => r.code === code);
+    if (fromServer) return fromServer.available;
+    return product.stock?.[code.toLowerCase()] ?? 0;
+  };
   
   // Mock data for demo since sync isn't working due to API limits
   const mockProducts = [
@@ -129,7 +152,7 @@ export function ApprovedCatalog() {
             <div className="flex flex-col items-center">
               <div className="flex items-center space-x-2 mb-1">
                 <MapPin className="h-5 w-5 text-[#1e3a8a]" />
-                <span className="text-2xl font-bold text-[#1e3a8a]">3</span>
+                <span className="text-2xl font-bold text-[#1e3a8a]">{regions.length}</span>
               </div>
               <span className="text-sm text-[#64748b]">Reivilo Locations</span>
             </div>
@@ -144,6 +167,17 @@ export function ApprovedCatalog() {
         </div>
       </div>
 
+      {stale && (
+        <div className="flex items-center space-x-2 px-4 py-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800" data-testid="banner-stale-stock">
+          <Clock className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {syncedTime
+              ? `Live stock is temporarily unavailable. Showing stock figures as of ${syncedTime}.`
+              : "Live stock is temporarily unavailable. Stock figures may be out of date."}
+          </span>
+        </div>
+      )}
+
       {/* Products Grid - Approved Layout */}
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -218,18 +252,12 @@ export function ApprovedCatalog() {
                 <div className="space-y-2 mb-4">
                   <span className="text-xs font-medium text-[#64748b]">Warehouses:</span>
                   <div className="grid grid-cols-3 gap-1 text-xs">
-                    <div className="text-center p-2 bg-[#f8fafc] rounded border border-[#e2e8f0]">
-                      <div className="font-semibold text-[#1e40af]">JHB</div>
-                      <div className="text-green-600 font-bold">{product.stock?.jhb || 25}</div>
-                    </div>
-                    <div className="text-center p-2 bg-[#f8fafc] rounded border border-[#e2e8f0]">
-                      <div className="font-semibold text-[#1e40af]">CPT</div>
-                      <div className="text-green-600 font-bold">{product.stock?.cpt || 18}</div>
-                    </div>
-                    <div className="text-center p-2 bg-[#f8fafc] rounded border border-[#e2e8f0]">
-                      <div className="font-semibold text-[#1e40af]">BFN</div>
-                      <div className="text-green-600 font-bold">{product.stock?.bfn || 12}</div>
-                    </div>
+                    {regions.map((region) => (
+                      <div key={region.id} className="text-center p-2 bg-[#f8fafc] rounded border border-[#e2e8f0]">
+                        <div className="font-semibold text-[#1e40af]">{region.code}</div>
+                        <div className="text-green-600 font-bold">{regionStock(product, region.code)}</div>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 
@@ -245,14 +273,14 @@ export function ApprovedCatalog() {
                 
                 {/* Actions */}
                 <div className="flex space-x-2">
-                  <Select defaultValue="JHB">
+                  <Select defaultValue={regions[0]?.code}>
                     <SelectTrigger className="h-8 text-xs flex-1 border-[#e2e8f0] focus:border-[#1e3a8a] focus:ring-[#1e3a8a]">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="JHB">JHB</SelectItem>
-                      <SelectItem value="CPT">CPT</SelectItem>
-                      <SelectItem value="BFN">BFN</SelectItem>
+                      {regions.map((region) => (
+                        <SelectItem key={region.id} value={region.code}>{region.code}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Button size="sm" className="bg-[#1e3a8a] hover:bg-[#1e40af] text-white px-3">
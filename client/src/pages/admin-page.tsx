@@ -10,7 +10,7 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Building2, Users, UserPlus, RefreshCw, Shield, UserCheck, Trash2 } from "lucide-react";
+import { Building2, Users, UserPlus, RefreshCw, Shield, UserCheck, Trash2, Send, RotateCcw, Mail, XCircle, Lock, Unlock } from "lucide-react";
 
 interface Customer {
   id: number;
@@ -23,6 +23,50 @@ interface Customer {
   syncedAt: string;
 }
 
+interface Invitation {
+  id: number;
+  email: string;
+  customerId: number | null;
+  companyName: string | null;
+  status: string;
+  expired: boolean;
+  expiresAt: string;
+  sentCount: number;
+  lastSentAt: string | null;
+  acceptedAt: string | null;
+  createdAt: string;
+}
+
+interface LockedAccount {
+  id: string;
+  email: string;
+  role: string;
+  failedLoginCount: number;
+  lockedUntil: string;
+}
+
+interface AccountLockEvent {
+  id: number;
+  email: string;
+  event: string;
+  failedAttempts: number | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+interface OutboxEntry {
+  id: number;
+  quoteId: number;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  companyName: string | null;
+  orderReference: string | null;
+  totalAmount: string | null;
+}
+
 export default function AdminPage() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
@@ -32,12 +76,20 @@ export default function AdminPage() {
   const [syncLoading, setSyncLoading] = useState(false);
   const [adminUsers, setAdminUsers] = useState<any[]>([]);
   const [adminLoading, setAdminLoading] = useState(false);
-  const [newClientForm, setNewClientForm] = useState({
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([]);
+  const [lockEvents, setLockEvents] = useState<AccountLockEvent[]>([]);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [outboxLoading, setOutboxLoading] = useState(false);
+  const [outboxFilter, setOutboxFilter] = useState("DEAD");
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [invitationsLoading, setInvitationsLoading] = useState(false);
+  const [inviteForm, setInviteForm] = useState({
+    name: "",
     email: "",
-    password: "",
     customerId: "",
   });
   const [newAdminForm, setNewAdminForm] = useState({
+    name: "",
     email: "",
     password: "",
   });
@@ -160,43 +212,139 @@ export default function AdminPage() {
     }
   };
 
-  const createClientUser = async (e: React.FormEvent) => {
+  const fetchInvitations = async () => {
+    setInvitationsLoading(true);
+    try {
+      const response = await fetch("/api/admin/invitations");
+      if (response.ok) {
+        const data = await response.json();
+        setInvitations(data.invitations);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to fetch invitations",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch invitations",
+        variant: "destructive",
+      });
+    } finally {
+      setInvitationsLoading(false);
+    }
+  };
+
+  const inviteClientUser = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newClientForm.email || !newClientForm.password || !newClientForm.customerId) {
+    if (!inviteForm.email || !inviteForm.customerId) {
       toast({
         title: "Error",
-        description: "All fields are required",
+        description: "Email and customer ID are required",
         variant: "destructive",
       });
       return;
     }
 
     try {
-      const response = await fetch("/api/admin/create-client", {
+      const response = await fetch("/api/admin/invitations", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(newClientForm),
+        body: JSON.stringify(inviteForm),
       });
 
       if (response.ok) {
+        const data = await response.json();
         toast({
-          title: "Success",
-          description: "Client user created successfully",
+          title: data.emailSent ? "Invitation sent" : "Invitation created",
+          description: data.emailSent
+            ? `${inviteForm.email} will receive a link to set their password`
+            : "The invitation email could not be sent. Use Resend to try again.",
+          variant: data.emailSent ? "default" : "destructive",
+        });
+        setInviteForm({ name: "", email: "", customerId: "" });
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Error",
+          description: error.message || "Failed to send invitation",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resendInvitation = async (invitation: Invitation) => {
+    try {
+      const response = await fetch(`/api/admin/invitations/${invitation.id}/resend`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast({
+          title: data.emailSent ? "Invitation resent" : "Email not sent",
+          description: data.emailSent
+            ? `A new link was sent to ${invitation.email}; the previous link no longer works`
+            : "The invitation email could not be sent",
+          variant: data.emailSent ? "default" : "destructive",
+        });
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Error",
+          description: error.message || "Failed to resend invitation",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to resend invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeInvitation = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/invitations/${invitation.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Invitation revoked",
+          description: `${invitation.email} can no longer use their invitation link`,
         });
-        setNewClientForm({ email: "", password: "", customerId: "" });
+        fetchInvitations();
       } else {
         const error = await response.json();
         toast({
           title: "Error",
-          description: error.message || "Failed to create client user",
+          description: error.message || "Failed to revoke invitation",
           variant: "destructive",
         });
       }
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create client user",
+        description: "Failed to revoke invitation",
         variant: "destructive",
       });
     }
@@ -208,7 +356,7 @@ export default function AdminPage() {
       const response = await fetch("/api/admin/users");
       if (response.ok) {
         const data = await response.json();
-        setAdminUsers(data);
+        setAdminUsers(data.users || []);
       } else {
         toast({
           title: "Error",
@@ -240,7 +388,7 @@ export default function AdminPage() {
     }
 
     try {
-      const response = await fetch("/api/admin/create-admin", {
+      const response = await fetch("/api/admin/users", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newAdminForm),
@@ -251,7 +399,7 @@ export default function AdminPage() {
           title: "Success",
           description: "Admin user created successfully",
         });
-        setNewAdminForm({ email: "", password: "" });
+        setNewAdminForm({ name: "", email: "", password: "" });
         fetchAdminUsers();
       } else {
         const error = await response.json();
@@ -303,9 +451,123 @@ export default function AdminPage() {
     }
   };
 
+  const fetchLockedAccounts = async () => {
+    try {
+      const response = await fetch("/api/admin/locked-accounts");
+      if (response.ok) {
+        const data = await response.json();
+        setLockedAccounts(data.accounts);
+        setLockEvents(data.events);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to fetch locked accounts",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch locked accounts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const unlockAccount = async (account: LockedAccount) => {
+    try {
+      const response = await fetch(`/api/admin/users/${account.id}/unlock`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Account unlocked",
+          description: `${account.email} can sign in again`,
+        });
+        fetchLockedAccounts();
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Error",
+          description: error.message || "Failed to unlock account",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to unlock account",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchOutbox = async (status = outboxFilter) => {
+    setOutboxLoading(true);
+    try {
+      const response = await fetch(`/api/admin/outbox${status ? `?status=${status}` : ""}`);
+      if (response.ok) {
+        const data = await response.json();
+        setOutboxEntries(data.entries);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to fetch quote outbox",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch quote outbox",
+        variant: "destructive",
+      });
+    } finally {
+      setOutboxLoading(false);
+    }
+  };
+
+  const replayOutboxEntry = async (entry: OutboxEntry) => {
+    try {
+      const response = await fetch(`/api/admin/outbox/${entry.id}/replay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast({
+          title: data.entry.status === "SENT" ? "Quote Sent" : "Quote Requeued",
+          description: data.entry.status === "SENT"
+            ? `Quote #${entry.quoteId} was pushed to Cin7`
+            : `Quote #${entry.quoteId} is ${data.entry.status.toLowerCase()}${data.entry.lastError ? `: ${data.entry.lastError}` : ""}`,
+          variant: data.entry.status === "DEAD" ? "destructive" : undefined,
+        });
+        fetchOutbox();
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Error",
+          description: error.message || "Failed to replay quote",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to replay quote",
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     fetchCustomers();
+    fetchInvitations();
     fetchAdminUsers();
+    fetchLockedAccounts();
+    fetchOutbox();
   }, []);
 
   return (
@@ -330,19 +592,23 @@ export default function AdminPage() {
         </div>
 
         <Tabs defaultValue="customers" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="customers" data-testid="tab-customers">
               <Building2 className="w-4 h-4 mr-2" />
               Customer Management
             </TabsTrigger>
             <TabsTrigger value="users" data-testid="tab-users">
               <Users className="w-4 h-4 mr-2" />
-              Create Client Users
+              Invite Client Users
             </TabsTrigger>
             <TabsTrigger value="admins" data-testid="tab-admins">
               <Shield className="w-4 h-4 mr-2" />
               Admin Users
             </TabsTrigger>
+            <TabsTrigger value="outbox" data-testid="tab-outbox">
+              <Send className="w-4 h-4 mr-2" />
+              Quote Outbox
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="customers">
@@ -425,58 +691,158 @@ export default function AdminPage() {
           </TabsContent>
 
           <TabsContent value="users">
-            <Card>
-              <CardHeader>
-                <CardTitle data-testid="text-create-user-title">Create Client User</CardTitle>
-                <CardDescription data-testid="text-create-user-description">
-                  Create login credentials for a specific customer
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={createClientUser} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email Address</Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      value={newClientForm.email}
-                      onChange={(e) => setNewClientForm({ ...newClientForm, email: e.target.value })}
-                      placeholder="client@company.com"
-                      data-testid="input-client-email"
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="password">Password</Label>
-                    <Input
-                      id="password"
-                      type="password"
-                      value={newClientForm.password}
-                      onChange={(e) => setNewClientForm({ ...newClientForm, password: e.target.value })}
-                      placeholder="Secure password"
-                      data-testid="input-client-password"
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="customerId">Customer ID</Label>
-                    <Input
-                      id="customerId"
-                      type="number"
-                      value={newClientForm.customerId}
-                      onChange={(e) => setNewClientForm({ ...newClientForm, customerId: e.target.value })}
-                      placeholder="Select from customer list above"
-                      data-testid="input-customer-id"
-                    />
-                  </div>
-                  
-                  <Button type="submit" className="w-full" data-testid="button-create-client">
-                    <UserPlus className="w-4 h-4 mr-2" />
-                    Create Client User
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle data-testid="text-invite-user-title">Invite Client User</CardTitle>
+                  <CardDescription data-testid="text-invite-user-description">
+                    Email a customer contact an invitation; they choose their own password when they accept
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={inviteClientUser} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="invite-name">Name</Label>
+                        <Input
+                          id="invite-name"
+                          value={inviteForm.name}
+                          onChange={(e) => setInviteForm({ ...inviteForm, name: e.target.value })}
+                          placeholder="Contact name (optional)"
+                          data-testid="input-invite-name"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="invite-email">Email Address</Label>
+                        <Input
+                          id="invite-email"
+                          type="email"
+                          value={inviteForm.email}
+                          onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                          placeholder="client@company.com"
+                          data-testid="input-invite-email"
+                        />
+                      </div>
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="customerId">Customer ID</Label>
+                      <Input
+                        id="customerId"
+                        type="number"
+                        value={inviteForm.customerId}
+                        onChange={(e) => setInviteForm({ ...inviteForm, customerId: e.target.value })}
+                        placeholder="Select from customer list above"
+                        data-testid="input-customer-id"
+                      />
+                    </div>
+                    
+                    <Button type="submit" className="w-full" data-testid="button-send-invite">
+                      <Mail className="w-4 h-4 mr-2" />
+                      Send Invitation
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle data-testid="text-invitations-title">Invitations</CardTitle>
+                  <CardDescription data-testid="text-invitations-description">
+                    Resending issues a new link and retires the old one; revoking removes the pending account
+                  </CardDescription>
+                  <Button
+                    variant="outline"
+                    onClick={fetchInvitations}
+                    disabled={invitationsLoading}
+                    data-testid="button-refresh-invitations"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${invitationsLoading ? 'animate-spin' : ''}`} />
+                    Refresh
                   </Button>
-                </form>
-              </CardContent>
-            </Card>
+                </CardHeader>
+                <CardContent>
+                  {invitationsLoading ? (
+                    <div className="text-center py-4" data-testid="text-invitations-loading">
+                      Loading invitations...
+                    </div>
+                  ) : invitations.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground" data-testid="text-invitations-empty">
+                      No invitations yet
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Email Address</TableHead>
+                          <TableHead>Customer</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Last Sent</TableHead>
+                          <TableHead>Expires</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {invitations.map((invitation) => (
+                          <TableRow key={invitation.id} data-testid={`row-invitation-${invitation.id}`}>
+                            <TableCell className="font-medium">{invitation.email}</TableCell>
+                            <TableCell>{invitation.companyName ?? "N/A"}</TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={
+                                  invitation.status === "ACCEPTED"
+                                    ? "default"
+                                    : invitation.status === "REVOKED" || invitation.expired
+                                      ? "destructive"
+                                      : "secondary"
+                                }
+                                data-testid={`text-invitation-status-${invitation.id}`}
+                              >
+                                {invitation.expired ? "EXPIRED" : invitation.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {invitation.lastSentAt ? new Date(invitation.lastSentAt).toLocaleString() : "—"}
+                              {invitation.sentCount > 1 && (
+                                <div className="text-xs text-muted-foreground">Sent {invitation.sentCount} times</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {invitation.status === "PENDING" ? new Date(invitation.expiresAt).toLocaleDateString() : "—"}
+                            </TableCell>
+                            <TableCell>
+                              {invitation.status === "PENDING" && (
+                                <div className="flex gap-2">
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => resendInvitation(invitation)}
+                                    data-testid={`button-resend-invitation-${invitation.id}`}
+                                  >
+                                    <Send className="w-4 h-4 mr-2" />
+                                    Resend
+                                  </Button>
+                                  <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={() => revokeInvitation(invitation)}
+                                    data-testid={`button-revoke-invitation-${invitation.id}`}
+                                  >
+                                    <XCircle className="w-4 h-4 mr-2" />
+                                    Revoke
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </TabsContent>
 
           <TabsContent value="admins">
@@ -493,7 +859,18 @@ export default function AdminPage() {
                 </CardHeader>
                 <CardContent>
                   <form onSubmit={createAdminUser} className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="admin-name">Name</Label>
+                        <Input
+                          id="admin-name"
+                          value={newAdminForm.name}
+                          onChange={(e) => setNewAdminForm({ ...newAdminForm, name: e.target.value })}
+                          placeholder="Full name"
+                          data-testid="input-admin-name"
+                        />
+                      </div>
+
                       <div className="space-y-2">
                         <Label htmlFor="admin-email">Email Address</Label>
                         <Input
@@ -511,6 +888,7 @@ export default function AdminPage() {
                         <Input
                           id="admin-password"
                           type="password"
+                          minLength={8}
                           value={newAdminForm.password}
                           onChange={(e) => setNewAdminForm({ ...newAdminForm, password: e.target.value })}
                           placeholder="Secure admin password"
@@ -554,6 +932,7 @@ export default function AdminPage() {
                         <TableRow>
                           <TableHead>Email Address</TableHead>
                           <TableHead>Role</TableHead>
+                          <TableHead>Last Login</TableHead>
                           <TableHead>Created</TableHead>
                           <TableHead>Actions</TableHead>
                         </TableRow>
@@ -562,7 +941,7 @@ export default function AdminPage() {
                         {adminUsers.map((admin) => (
                           <TableRow key={admin.id} data-testid={`row-admin-${admin.id}`}>
                             <TableCell className="font-medium" data-testid={`text-admin-email-${admin.id}`}>
-                              {admin.email}
+                              {admin.name ? `${admin.name} · ${admin.email}` : admin.email}
                               {admin.email === user?.email && (
                                 <Badge variant="secondary" className="ml-2">You</Badge>
                               )}
@@ -570,9 +949,12 @@ export default function AdminPage() {
                             <TableCell data-testid={`text-admin-role-${admin.id}`}>
                               <Badge variant="default">
                                 <Shield className="w-3 h-3 mr-1" />
-                                Admin
+                                {admin.role === "admin" ? "Admin" : admin.role}
                               </Badge>
                             </TableCell>
+                            <TableCell data-testid={`text-admin-last-login-${admin.id}`}>
+                              {admin.lastLoginAt ? new Date(admin.lastLoginAt).toLocaleString() : 'Never'}
+                            </TableCell>
                             <TableCell data-testid={`text-admin-created-${admin.id}`}>
                               {admin.createdAt ? new Date(admin.createdAt).toLocaleDateString() : 'N/A'}
                             </TableCell>
@@ -595,8 +977,196 @@ export default function AdminPage() {
                   )}
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle data-testid="text-locked-accounts-title">
+                    <Lock className="w-5 h-5 mr-2 inline" />
+                    Locked Accounts
+                  </CardTitle>
+                  <CardDescription data-testid="text-locked-accounts-description">
+                    Accounts locked after repeated failed logins unlock on their own when the lockout ends, or can be unlocked here
+                  </CardDescription>
+                  <Button variant="outline" onClick={fetchLockedAccounts} data-testid="button-refresh-locked">
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Refresh
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {lockedAccounts.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground" data-testid="text-locked-empty">
+                      No accounts are locked
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Email Address</TableHead>
+                          <TableHead>Role</TableHead>
+                          <TableHead>Failed Attempts</TableHead>
+                          <TableHead>Locked Until</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lockedAccounts.map((account) => (
+                          <TableRow key={account.id} data-testid={`row-locked-${account.id}`}>
+                            <TableCell className="font-medium">{account.email}</TableCell>
+                            <TableCell>{account.role}</TableCell>
+                            <TableCell>{account.failedLoginCount}</TableCell>
+                            <TableCell>{new Date(account.lockedUntil).toLocaleString()}</TableCell>
+                            <TableCell>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => unlockAccount(account)}
+                                data-testid={`button-unlock-${account.id}`}
+                              >
+                                <Unlock className="w-4 h-4 mr-2" />
+                                Unlock
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {lockEvents.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Recent lockouts and unlocks</h4>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>When</TableHead>
+                            <TableHead>Email Address</TableHead>
+                            <TableHead>Event</TableHead>
+                            <TableHead>Details</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lockEvents.map((event) => (
+                            <TableRow key={event.id} data-testid={`row-lock-event-${event.id}`}>
+                              <TableCell>{new Date(event.createdAt).toLocaleString()}</TableCell>
+                              <TableCell>{event.email}</TableCell>
+                              <TableCell>
+                                <Badge variant={event.event === "LOCKED" ? "destructive" : "secondary"}>
+                                  {event.event}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {event.event === "LOCKED"
+                                  ? `${event.failedAttempts ?? "?"} failed attempts${event.ip ? ` from ${event.ip}` : ""}`
+                                  : "Unlocked by an admin"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
+
+          <TabsContent value="outbox">
+            <Card>
+              <CardHeader>
+                <CardTitle data-testid="text-outbox-title">Quote Outbox</CardTitle>
+                <CardDescription data-testid="text-outbox-description">
+                  Quotes waiting to reach Cin7. Dead entries stopped retrying and can be replayed once the cause is fixed.
+                </CardDescription>
+                <div className="flex gap-2">
+                  {["DEAD", "PENDING", "SENT", ""].map((status) => (
+                    <Button
+                      key={status || "ALL"}
+                      variant={outboxFilter === status ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => {
+                        setOutboxFilter(status);
+                        fetchOutbox(status);
+                      }}
+                      data-testid={`button-outbox-filter-${(status || "all").toLowerCase()}`}
+                    >
+                      {status || "All"}
+                    </Button>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fetchOutbox()}
+                    disabled={outboxLoading}
+                    data-testid="button-refresh-outbox"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${outboxLoading ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {outboxLoading ? (
+                  <div className="text-center py-4" data-testid="text-outbox-loading">
+                    Loading outbox...
+                  </div>
+                ) : outboxEntries.length === 0 ? (
+                  <div className="text-center py-4 text-muted-foreground" data-testid="text-outbox-empty">
+                    No outbox entries
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Quote</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Total</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Last Error</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {outboxEntries.map((entry) => (
+                        <TableRow key={entry.id} data-testid={`row-outbox-${entry.id}`}>
+                          <TableCell className="font-medium">
+                            #{entry.quoteId}
+                            {entry.orderReference && (
+                              <div className="text-xs text-muted-foreground">{entry.orderReference}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{entry.companyName ?? "N/A"}</TableCell>
+                          <TableCell>R{parseFloat(entry.totalAmount ?? "0").toFixed(2)}</TableCell>
+                          <TableCell>
+                            <Badge variant={entry.status === "DEAD" ? "destructive" : entry.status === "SENT" ? "default" : "secondary"}>
+                              {entry.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{entry.attempts}</TableCell>
+                          <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={entry.lastError ?? undefined}>
+                            {entry.lastError ?? "—"}
+                          </TableCell>
+                          <TableCell>
+                            {entry.status === "DEAD" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => replayOutboxEntry(entry)}
+                                data-testid={`button-replay-outbox-${entry.id}`}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-2" />
+                                Replay
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -1,18 +1,51 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Building2, Shield, Users } from "lucide-react";
+import { Loader2, Building2, Shield, Users, CheckCircle2 } from "lucide-react";
+
+type LoginView = "login" | "forgot" | "reset" | "invite";
+
+// apiRequest errors read "400: {json}"; show the server's message
+function errorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message.replace(/^\d+:\s*/, "") : "";
+  try {
+    return JSON.parse(text).message || text;
+  } catch {
+    return text || "Something went wrong. Please try again.";
+  }
+}
 
 export default function AuthPage() {
   const [, setLocation] = useLocation();
   const { user, loginMutation, registerMutation } = useAuth();
   const [loginForm, setLoginForm] = useState({ email: "", password: "" });
   const [registerForm, setRegisterForm] = useState({ email: "", password: "", confirmPassword: "" });
+  // Emailed links land on /auth?reset=<token> or /auth?invite=<token>
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get("reset") || "");
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite") || "");
+  const [view, setView] = useState<LoginView>(inviteToken ? "invite" : resetToken ? "reset" : "login");
+  const [invitation, setInvitation] = useState<{ email: string; companyName: string | null } | null>(null);
+  const [forgotEmail, setForgotEmail] = useState("");
+  const [resetForm, setResetForm] = useState({ password: "", confirmPassword: "" });
+  const [pending, setPending] = useState(false);
+  const [notice, setNotice] = useState<{ kind: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    fetch(`/api/auth/invitations/${encodeURIComponent(inviteToken)}`, { credentials: "include" })
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) setInvitation(data);
+        else setNotice({ kind: "error", text: data.message });
+      })
+      .catch(() => setNotice({ kind: "error", text: "Could not load your invitation. Please try again." }));
+  }, [inviteToken]);
 
   // Redirect if already logged in
   if (user) {
@@ -25,6 +58,84 @@ export default function AuthPage() {
     loginMutation.mutate(loginForm);
   };
 
+  const showView = (next: LoginView) => {
+    setNotice(null);
+    setView(next);
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending(true);
+    setNotice(null);
+    try {
+      const res = await apiRequest("POST", "/api/auth/forgot-password", { email: forgotEmail });
+      const data = await res.json();
+      setNotice({ kind: "success", text: data.message });
+    } catch (error) {
+      setNotice({ kind: "error", text: errorMessage(error) });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (resetForm.password !== resetForm.confirmPassword) {
+      setNotice({ kind: "error", text: "Passwords do not match" });
+      return;
+    }
+    setPending(true);
+    setNotice(null);
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token: resetToken, password: resetForm.password });
+      window.history.replaceState(null, "", "/auth");
+      setResetForm({ password: "", confirmPassword: "" });
+      setView("login");
+      setNotice({ kind: "success", text: "Your password has been reset. Sign in with your new password." });
+    } catch (error) {
+      setNotice({ kind: "error", text: errorMessage(error) });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleAcceptInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (resetForm.password !== resetForm.confirmPassword) {
+      setNotice({ kind: "error", text: "Passwords do not match" });
+      return;
+    }
+    setPending(true);
+    setNotice(null);
+    try {
+      const res = await apiRequest("POST", "/api/auth/accept-invite", { token: inviteToken, password: resetForm.password });
+      const data = await res.json();
+      window.history.replaceState(null, "", "/auth");
+      setResetForm({ password: "", confirmPassword: "" });
+      setLoginForm({ email: data.email, password: "" });
+      setView("login");
+      setNotice({ kind: "success", text: "Your account is active. Sign in with your new password." });
+    } catch (error) {
+      setNotice({ kind: "error", text: errorMessage(error) });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const noticeBanner = notice && (
+    <div
+      className={`mb-4 rounded-md border p-3 text-sm ${
+        notice.kind === "success"
+          ? "border-green-200 bg-green-50 text-green-800"
+          : "border-red-200 bg-red-50 text-red-800"
+      }`}
+      data-testid={`text-auth-${notice.kind}`}
+    >
+      {notice.kind === "success" && <CheckCircle2 className="mr-2 inline h-4 w-4" />}
+      {notice.text}
+    </div>
+  );
+
   const handleRegister = (e: React.FormEvent) => {
     e.preventDefault();
     if (registerForm.password !== registerForm.confirmPassword) {
@@ -69,57 +180,224 @@ export default function AuthPage() {
             </TabsList>
 
             <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle data-testid="text-login-title">Sign In</CardTitle>
-                  <CardDescription data-testid="text-login-description">
-                    Enter your credentials to access your account
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={handleLogin} className="space-y-4">
-                    <div>
-                      <Label htmlFor="login-email">Email Address</Label>
-                      <Input
-                        id="login-email"
-                        type="email"
-                        placeholder="Enter your email"
-                        value={loginForm.email}
-                        onChange={(e) => setLoginForm({ ...loginForm, email: e.target.value })}
-                        required
-                        data-testid="input-login-email"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="login-password">Password</Label>
-                      <Input
-                        id="login-password"
-                        type="password"
-                        placeholder="Enter your password"
-                        value={loginForm.password}
-                        onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
-                        required
-                        data-testid="input-login-password"
-                      />
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full" 
-                      disabled={loginMutation.isPending}
-                      data-testid="button-login-submit"
-                    >
-                      {loginMutation.isPending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Signing In...
-                        </>
-                      ) : (
-                        "Sign In"
-                      )}
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
+              {view === "forgot" ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-forgot-title">Forgot Password</CardTitle>
+                    <CardDescription data-testid="text-forgot-description">
+                      Enter your account email and we'll send you a link to reset your password
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {noticeBanner}
+                    <form onSubmit={handleForgotPassword} className="space-y-4">
+                      <div>
+                        <Label htmlFor="forgot-email">Email Address</Label>
+                        <Input
+                          id="forgot-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          value={forgotEmail}
+                          onChange={(e) => setForgotEmail(e.target.value)}
+                          required
+                          data-testid="input-forgot-email"
+                        />
+                      </div>
+                      <Button type="submit" className="w-full" disabled={pending} data-testid="button-forgot-submit">
+                        {pending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Sending...
+                          </>
+                        ) : (
+                          "Send Reset Link"
+                        )}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        className="w-full"
+                        onClick={() => showView("login")}
+                        data-testid="button-back-to-login"
+                      >
+                        Back to Sign In
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              ) : view === "invite" ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-invite-title">Accept Your Invitation</CardTitle>
+                    <CardDescription data-testid="text-invite-description">
+                      {invitation
+                        ? `Choose a password for ${invitation.email}${invitation.companyName ? ` (${invitation.companyName})` : ""}`
+                        : "Choose a password to activate your account"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {noticeBanner}
+                    <form onSubmit={handleAcceptInvite} className="space-y-4">
+                      <div>
+                        <Label htmlFor="invite-password">Password</Label>
+                        <Input
+                          id="invite-password"
+                          type="password"
+                          placeholder="At least 8 characters"
+                          value={resetForm.password}
+                          onChange={(e) => setResetForm({ ...resetForm, password: e.target.value })}
+                          minLength={8}
+                          required
+                          data-testid="input-invite-password"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="invite-confirm-password">Confirm Password</Label>
+                        <Input
+                          id="invite-confirm-password"
+                          type="password"
+                          placeholder="Repeat your password"
+                          value={resetForm.confirmPassword}
+                          onChange={(e) => setResetForm({ ...resetForm, confirmPassword: e.target.value })}
+                          minLength={8}
+                          required
+                          data-testid="input-invite-confirm-password"
+                        />
+                      </div>
+                      <Button type="submit" className="w-full" disabled={pending || !invitation} data-testid="button-accept-invite">
+                        {pending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Activating...
+                          </>
+                        ) : (
+                          "Activate Account"
+                        )}
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              ) : view === "reset" ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-reset-title">Choose a New Password</CardTitle>
+                    <CardDescription data-testid="text-reset-description">
+                      Reset links can only be used once and expire after a short time
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {noticeBanner}
+                    <form onSubmit={handleResetPassword} className="space-y-4">
+                      <div>
+                        <Label htmlFor="reset-password">New Password</Label>
+                        <Input
+                          id="reset-password"
+                          type="password"
+                          placeholder="At least 8 characters"
+                          value={resetForm.password}
+                          onChange={(e) => setResetForm({ ...resetForm, password: e.target.value })}
+                          minLength={8}
+                          required
+                          data-testid="input-reset-password"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+                        <Input
+                          id="reset-confirm-password"
+                          type="password"
+                          placeholder="Repeat your new password"
+                          value={resetForm.confirmPassword}
+                          onChange={(e) => setResetForm({ ...resetForm, confirmPassword: e.target.value })}
+                          minLength={8}
+                          required
+                          data-testid="input-reset-confirm-password"
+                        />
+                      </div>
+                      <Button type="submit" className="w-full" disabled={pending} data-testid="button-reset-submit">
+                        {pending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Saving...
+                          </>
+                        ) : (
+                          "Reset Password"
+                        )}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        className="w-full"
+                        onClick={() => showView("forgot")}
+                        data-testid="button-request-new-link"
+                      >
+                        Request a new link
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-login-title">Sign In</CardTitle>
+                    <CardDescription data-testid="text-login-description">
+                      Enter your credentials to access your account
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {noticeBanner}
+                    <form onSubmit={handleLogin} className="space-y-4">
+                      <div>
+                        <Label htmlFor="login-email">Email Address</Label>
+                        <Input
+                          id="login-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          value={loginForm.email}
+                          onChange={(e) => setLoginForm({ ...loginForm, email: e.target.value })}
+                          required
+                          data-testid="input-login-email"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="login-password">Password</Label>
+                        <Input
+                          id="login-password"
+                          type="password"
+                          placeholder="Enter your password"
+                          value={loginForm.password}
+                          onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
+                          required
+                          data-testid="input-login-password"
+                        />
+                        <button
+                          type="button"
+                          className="mt-2 text-sm text-primary hover:underline"
+                          onClick={() => showView("forgot")}
+                          data-testid="link-forgot-password"
+                        >
+                          Forgot your password?
+                        </button>
+                      </div>
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={loginMutation.isPending}
+                        data-testid="button-login-submit"
+                      >
+                        {loginMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Signing In...
+                          </>
+                        ) : (
+                          "Sign In"
+                        )}
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
 
             <TabsContent value="register">
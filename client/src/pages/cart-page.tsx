@@ -2,6 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Header } from "@/components/header";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Minus, Plus, Trash2, ArrowLeft, FileText, Info } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -12,7 +15,26 @@ interface CartItem {
   sku: string;
   quantity: number;
   warehouse: string;
-  price?: number;
+  price?: number | null; // null when the SKU has no price for this account
+  currency?: string;
+  backorderAccepted?: boolean;
+}
+
+// Per-line result of /api/cart/stock (checked against cached availability at the line's depot)
+interface LineStock {
+  index: number;
+  warehouse: string;
+  requested: number;
+  available: number;
+  shortfall: number;
+  status: "available" | "partial" | "backorder";
+  backorderAccepted: boolean;
+  alternatives: Array<{ location: string; name: string; available: number }>;
+}
+
+interface StockCheck {
+  lines: LineStock[];
+  ok: boolean;
 }
 
 interface Cart {
@@ -20,37 +42,106 @@ interface Cart {
   location?: string;
 }
 
+interface CartSummary {
+  currency: string;
+  subtotal: number;
+  taxRule: string;
+  vatRate: number;
+  vat: number;
+  shipping: number;
+  shippingRule: string | null;
+  total: number;
+  // Present when previewing a split checkout: one entry per quote
+  groups?: Array<{
+    location: string;
+    lines: number;
+    summary: { total: number };
+  }>;
+}
+
 export default function CartPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  // One key per cart state, so double-clicks and retries of the same submit can't create a second quote
+  const [checkoutKey, setCheckoutKey] = useState(() => crypto.randomUUID());
+  // Mixed-depot carts can be raised as one Cin7 quote per depot under a single portal order
+  const [splitByDepot, setSplitByDepot] = useState(false);
+  const summaryKey = splitByDepot ? "/api/cart/summary?split=warehouse" : "/api/cart/summary";
+  // Stock is checked where checkout will source it, which depends on the split mode
+  const stockKey = splitByDepot ? "/api/cart/stock?split=warehouse" : "/api/cart/stock";
 
   const { data: cart, isLoading } = useQuery<Cart>({
     queryKey: ["/api/cart"],
   });
 
+  const { data: summary } = useQuery<CartSummary>({
+    queryKey: [summaryKey],
+  });
+
+  const { data: stock } = useQuery<StockCheck>({
+    queryKey: [stockKey],
+  });
+
   const updateCartMutation = useMutation({
     mutationFn: async (updatedCart: Cart) => {
       const res = await apiRequest("POST", "/api/cart", updatedCart);
       return res.json();
     },
     onSuccess: () => {
+      setCheckoutKey(crypto.randomUUID());
       queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: [summaryKey] });
+      queryClient.invalidateQueries({ queryKey: [stockKey] });
     },
   });
 
   const checkoutMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/cart/checkout");
+      const res = await apiRequest(
+        "POST",
+        "/api/cart/checkout",
+        { split: splitByDepot ? "warehouse" : "none" },
+        { "Idempotency-Key": checkoutKey },
+      );
       return res.json();
     },
     onSuccess: (data) => {
-      toast({
-        title: "Quote Created Successfully",
-        description: `Quote ${data.erp_sale_id} has been submitted for approval.`,
-      });
+      if (data.status === "NOTAUTHORISED" && data.quotes?.length > 1) {
+        toast({
+          title: "Quotes Created Successfully",
+          description: `Order ${data.order_number} was submitted as ${data.quotes.length} quotes, one per depot.`,
+        });
+      } else if (data.status === "NOTAUTHORISED") {
+        toast({
+          title: "Quote Created Successfully",
+          description: `Quote ${data.erp_sale_id} has been submitted for approval.`,
+        });
+      } else if (data.status === "FAILED") {
+        toast({
+          title: "Order Received",
+          description: `Order ${data.order_number} is saved but could not be submitted automatically. Our team will follow up.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Order Received",
+          description: `Order ${data.order_number} is saved and will be submitted for approval shortly.`,
+        });
+      }
+      setCheckoutKey(crypto.randomUUID());
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
       setLocation("/profile");
     },
     onError: (error: Error) => {
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: [stockKey] });
+        toast({
+          title: "Stock Check Failed",
+          description: "Some items are short at the selected depot. Accept a backorder, switch depot or reduce the quantity.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Checkout Failed",
         description: error.message,
@@ -59,22 +150,28 @@ export default function CartPage() {
     },
   });
 
-  const updateQuantity = (index: number, newQuantity: number) => {
+  // Changing quantity or depot clears an earlier backorder acceptance unless it is set explicitly
+  const updateItem = (index: number, changes: Partial<CartItem>) => {
     if (!cart) return;
-    
+
     const updatedItems = [...cart.items];
-    if (newQuantity <= 0) {
-      updatedItems.splice(index, 1);
-    } else {
-      updatedItems[index] = { ...updatedItems[index], quantity: newQuantity };
-    }
-    
+    updatedItems[index] = { ...updatedItems[index], backorderAccepted: false, ...changes };
     updateCartMutation.mutate({
       ...cart,
       items: updatedItems,
     });
   };
 
+  const updateQuantity = (index: number, newQuantity: number) => {
+    if (!cart) return;
+    
+    if (newQuantity <= 0) {
+      removeItem(index);
+    } else {
+      updateItem(index, { quantity: newQuantity });
+    }
+  };
+
   const removeItem = (index: number) => {
     if (!cart) return;
     
@@ -102,12 +199,14 @@ export default function CartPage() {
 
   const cartItems = cart?.items || [];
   const isEmpty = cartItems.length === 0;
+  const depotCount = new Set(cartItems.map((item) => item.warehouse).filter(Boolean)).size;
 
-  // Mock pricing calculation (in production, this would come from the server)
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price || 89.99) * item.quantity, 0);
-  const tax = subtotal * 0.085;
-  const shipping = subtotal > 500 ? 0 : 15.00;
-  const total = subtotal + tax + shipping;
+  // Totals (VAT, shipping) are computed server-side and match what is sent to Cin7
+  const subtotal = summary?.subtotal ?? 0;
+  const tax = summary?.vat ?? 0;
+  const vatPercent = Math.round((summary?.vatRate ?? 0.15) * 1000) / 10;
+  const shipping = summary?.shipping ?? 0;
+  const total = summary?.total ?? 0;
 
   return (
     <div className="min-h-screen bg-background" data-testid="cart-page">
@@ -159,6 +258,59 @@ export default function CartPage() {
                             <p className="text-sm text-muted-foreground" data-testid={`text-item-warehouse-${index}`}>
                               Warehouse: {item.warehouse}
                             </p>
+                            {(() => {
+                              const line = stock?.lines[index];
+                              if (!line || line.status === "available") return null;
+                              return (
+                                <div className="mt-2 space-y-2" data-testid={`stock-status-${index}`}>
+                                  <p className="text-sm text-destructive">
+                                    {line.status === "partial"
+                                      ? `Only ${line.available} of ${line.requested} in stock at ${line.warehouse}`
+                                      : `Out of stock at ${line.warehouse}`}
+                                  </p>
+                                  {line.backorderAccepted ? (
+                                    <Badge variant="secondary" data-testid={`badge-backorder-${index}`}>
+                                      Backorder accepted ({line.shortfall})
+                                    </Badge>
+                                  ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => updateItem(index, { backorderAccepted: true })}
+                                        disabled={updateCartMutation.isPending}
+                                        data-testid={`button-accept-backorder-${index}`}
+                                      >
+                                        Accept backorder
+                                      </Button>
+                                      {line.available > 0 && (
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => updateItem(index, { quantity: line.available })}
+                                          disabled={updateCartMutation.isPending}
+                                          data-testid={`button-reduce-${index}`}
+                                        >
+                                          Reduce to {line.available}
+                                        </Button>
+                                      )}
+                                      {line.alternatives.slice(0, 2).map((alt) => (
+                                        <Button
+                                          key={alt.location}
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => updateItem(index, { warehouse: alt.location })}
+                                          disabled={updateCartMutation.isPending}
+                                          data-testid={`button-switch-${index}-${alt.location}`}
+                                        >
+                                          Switch to {alt.name} ({alt.available})
+                                        </Button>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            })()}
                           </div>
                           <div className="flex items-center space-x-4">
                             <div className="flex items-center space-x-2">
@@ -185,12 +337,20 @@ export default function CartPage() {
                               </Button>
                             </div>
                             <div className="text-right">
-                              <p className="text-base font-semibold text-foreground" data-testid={`text-line-total-${index}`}>
-                                R{((item.price || 89.99) * item.quantity).toFixed(2)}
-                              </p>
-                              <p className="text-sm text-muted-foreground" data-testid={`text-unit-price-${index}`}>
-                                R{(item.price || 89.99).toFixed(2)} each
-                              </p>
+                              {item.price === null || item.price === undefined ? (
+                                <p className="text-sm text-destructive" data-testid={`text-unit-price-${index}`}>
+                                  No price available
+                                </p>
+                              ) : (
+                                <>
+                                  <p className="text-base font-semibold text-foreground" data-testid={`text-line-total-${index}`}>
+                                    R{(item.price * item.quantity).toFixed(2)}
+                                  </p>
+                                  <p className="text-sm text-muted-foreground" data-testid={`text-unit-price-${index}`}>
+                                    R{item.price.toFixed(2)} each
+                                  </p>
+                                </>
+                              )}
                             </div>
                             <Button
                               variant="ghost"
@@ -224,7 +384,7 @@ export default function CartPage() {
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Tax (8.5%)</span>
+                    <span className="text-muted-foreground">VAT ({vatPercent}%)</span>
                     <span className="text-foreground" data-testid="text-tax">
                       R{tax.toFixed(2)}
                     </span>
@@ -243,11 +403,36 @@ export default function CartPage() {
                     </span>
                   </div>
                   
+                  {depotCount > 1 && (
+                    <div className="space-y-2 rounded-lg border border-border p-3">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="split-by-depot" className="text-sm">
+                          Separate quote per depot
+                        </Label>
+                        <Switch
+                          id="split-by-depot"
+                          checked={splitByDepot}
+                          onCheckedChange={(checked) => {
+                            setSplitByDepot(checked);
+                            setCheckoutKey(crypto.randomUUID());
+                          }}
+                          data-testid="switch-split-by-depot"
+                        />
+                      </div>
+                      {splitByDepot && summary?.groups?.map((group) => (
+                        <div key={group.location} className="flex justify-between text-xs text-muted-foreground" data-testid={`text-split-group-${group.location}`}>
+                          <span>{group.location} ({group.lines} {group.lines === 1 ? "line" : "lines"})</span>
+                          <span>R{group.summary.total.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="space-y-3 pt-4">
                     <Button
                       className="w-full"
                       onClick={handleCheckout}
-                      disabled={checkoutMutation.isPending}
+                      disabled={checkoutMutation.isPending || stock?.ok === false}
                       data-testid="button-create-quote"
                     >
                       {checkoutMutation.isPending ? (
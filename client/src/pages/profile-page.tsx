@@ -21,11 +21,53 @@ interface Customer {
   }>;
 }
 
+interface QuoteSummary {
+  id: number;
+  erpSaleId: string | null;
+  status: string | null;
+  orderNumber: string | null;
+  orderReference: string | null;
+  currency: string | null;
+  totalAmount: string | null;
+  createdAt: string;
+  statusHistory: Array<{
+    id: number;
+    toStatus: string;
+    occurredAt: string | null;
+  }>;
+}
+
+interface QuotesResponse {
+  quotes: QuoteSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Cin7 sale statuses shown with a friendlier label
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: "Submitting",
+  NOTAUTHORISED: "Pending Approval",
+  AUTHORISED: "Authorised",
+  PICKING: "Picking",
+  PACKED: "Packed",
+  SHIPPED: "Shipped",
+  VOIDED: "Voided",
+  FAILED: "Failed",
+};
+
+const statusLabel = (status: string | null) => STATUS_LABELS[status ?? ""] ?? status ?? "Unknown";
+
 export default function ProfilePage() {
   const { data: customer, isLoading, error } = useQuery<Customer>({
     queryKey: ["/api/customers/me"],
   });
 
+  const { data: quoteHistory } = useQuery<QuotesResponse>({
+    queryKey: ["/api/quotes?pageSize=10"],
+    enabled: !!customer,
+  });
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -56,25 +98,7 @@ export default function ProfilePage() {
     );
   }
 
-  // Mock recent orders data
-  const recentOrders = [
-    {
-      id: 1,
-      quoteNumber: "Q-2024-001",
-      date: "2024-01-15",
-      total: 1247.85,
-      status: "Pending Approval",
-      cin7Id: "SO-789456",
-    },
-    {
-      id: 2,
-      quoteNumber: "Q-2024-002", 
-      date: "2024-01-12",
-      total: 583.99,
-      status: "Approved",
-      cin7Id: "SO-789123",
-    },
-  ];
+  const recentOrders = quoteHistory?.quotes ?? [];
 
   return (
     <div className="min-h-screen bg-background" data-testid="profile-page">
@@ -220,24 +244,42 @@ export default function ProfilePage() {
                       recentOrders.map((order) => (
                         <tr key={order.id} className="hover:bg-muted/20 transition-colors" data-testid={`order-row-${order.id}`}>
                           <td className="px-6 py-4 text-sm font-medium text-foreground" data-testid={`text-quote-number-${order.id}`}>
-                            {order.quoteNumber}
+                            {order.orderNumber || `Q-${order.id}`}
+                            {order.orderReference && (
+                              <span className="block text-xs text-muted-foreground">{order.orderReference}</span>
+                            )}
                           </td>
                           <td className="px-6 py-4 text-sm text-muted-foreground" data-testid={`text-order-date-${order.id}`}>
-                            {order.date}
+                            {new Date(order.createdAt).toLocaleDateString()}
                           </td>
                           <td className="px-6 py-4 text-sm text-foreground" data-testid={`text-order-total-${order.id}`}>
-                            ${order.total.toFixed(2)}
+                            R{parseFloat(order.totalAmount ?? "0").toFixed(2)}
                           </td>
                           <td className="px-6 py-4">
                             <Badge 
-                              variant={order.status === "Approved" ? "default" : "secondary"}
+                              variant={order.status === "FAILED" || order.status === "VOIDED" ? "destructive" : order.status === "NOTAUTHORISED" || order.status === "PENDING" ? "secondary" : "default"}
                               data-testid={`text-order-status-${order.id}`}
                             >
-                              {order.status}
+                              {statusLabel(order.status)}
                             </Badge>
+                            {order.statusHistory.length > 1 && (
+                              <p className="mt-1 text-xs text-muted-foreground" data-testid={`text-order-history-${order.id}`}>
+                                {order.statusHistory
+                                  .filter((event) => event.toStatus !== "PENDING" && event.toStatus !== "NOTAUTHORISED")
+                                  .map((event) => (
+                                    <span
+                                      key={event.id}
+                                      title={event.occurredAt ? new Date(event.occurredAt).toLocaleString() : undefined}
+                                    >
+                                      {statusLabel(event.toStatus)}
+                                    </span>
+                                  ))
+                                  .reduce<React.ReactNode[]>((parts, part, i) => (i === 0 ? [part] : [...parts, " → ", part]), [])}
+                              </p>
+                            )}
                           </td>
                           <td className="px-6 py-4 text-sm text-muted-foreground" data-testid={`text-cin7-id-${order.id}`}>
-                            {order.cin7Id}
+                            {order.erpSaleId ?? "—"}
                           </td>
                         </tr>
                       ))
@@ -65,3 +65,27 @@ export function setupAuth(app: Express) {
     done(null, obj);
   });
 }
+
+/**
+ * Admins are ordinary `users` rows with role "admin". ADMIN_EMAIL / ADMIN_PASSWORD only seed
+ * the first one: when no active admin exists at startup, that account is created from the env
+ * pair. Once any admin exists the env pair is ignored; further admins are added in the portal.
+ */
+export async function bootstrapAdmin(): Promise<void> {
+  if ((await storage.countActiveAdmins()) > 0) return;
+
+  const email = process.env.ADMIN_EMAIL?.trim().toLowerCase();
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) {
+    console.warn("[AUTH] No admin accounts exist; set ADMIN_EMAIL and ADMIN_PASSWORD to create the first one");
+    return;
+  }
+
+  if (await storage.getUserByEmail(email)) {
+    console.warn(`[AUTH] No active admin, but ${email} already has an account that isn't an active admin; leaving it unchanged`);
+    return;
+  }
+
+  await storage.createAdminUser({ email, password, name: "Admin" });
+  console.log(`[AUTH] Bootstrapped first admin account ${email} from ADMIN_EMAIL`);
+}
@@ -0,0 +1,186 @@
+import type { Customer, RegionWithWarehouses } from "@shared/schema";
+import { storage } from "./storage";
+import { computeCartSummary, type CartSummary, type SummaryLine } from "./totals";
+import { getRegionDirectory, findRegion, resolveCheckoutLocation } from "./regions";
+
+/**
+ * Checkout planning: which Cin7 location(s) a cart is raised against.
+ * 'none' sends everything under the cart location; 'warehouse' and 'region' raise one
+ * quote per depot (or region) the lines are picked from, since depots pick independently.
+ * Lines are also checked against cached stock so shortfalls are settled before Cin7 sees them.
+ */
+
+export const SPLIT_MODES = ["none", "warehouse", "region"] as const;
+export type SplitMode = (typeof SPLIT_MODES)[number];
+
+export interface CheckoutGroup<T> {
+  location: string;
+  items: T[];
+  summary: CartSummary;
+}
+
+export interface CheckoutPlan<T> {
+  groups: CheckoutGroup<T>[];
+  summary: CartSummary; // totals across every group
+  unresolved: string[]; // warehouses/locations that don't map to a Cin7 checkout location
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Split mode from a request value; missing means 'none', anything unknown is null */
+export function parseSplitMode(value: unknown): SplitMode | null {
+  if (value === undefined || value === null || value === "") return "none";
+  const mode = String(value).toLowerCase();
+  return (SPLIT_MODES as readonly string[]).includes(mode) ? (mode as SplitMode) : null;
+}
+
+function combineSummaries(summaries: CartSummary[]): CartSummary {
+  const [first] = summaries;
+  const shippingRules = Array.from(new Set(summaries.map((s) => s.shippingRule).filter(Boolean)));
+  return {
+    currency: first.currency,
+    subtotal: round2(summaries.reduce((sum, s) => sum + s.subtotal, 0)),
+    taxRule: first.taxRule,
+    vatRate: first.vatRate,
+    vat: round2(summaries.reduce((sum, s) => sum + s.vat, 0)),
+    shipping: round2(summaries.reduce((sum, s) => sum + s.shipping, 0)),
+    shippingRule: shippingRules.length > 0 ? shippingRules.join(", ") : null,
+    total: round2(summaries.reduce((sum, s) => sum + s.total, 0)),
+  };
+}
+
+/**
+ * The location a line's stock is drawn from: the cart location when everything goes under one
+ * quote, otherwise the line's own depot. Stock checks and checkout planning must agree on it.
+ */
+function sourceLocation(item: { warehouse?: string }, cartLocation: string | null, split: SplitMode): string | null {
+  return split === "none" ? cartLocation : item.warehouse || cartLocation;
+}
+
+export async function planCheckout<T extends SummaryLine & { warehouse?: string }>(
+  items: T[],
+  options: { cartLocation: string | null; split: SplitMode; customer?: Customer | null }
+): Promise<CheckoutPlan<T>> {
+  const regions = await getRegionDirectory();
+  const byLocation = new Map<string, T[]>();
+  const unresolved = new Set<string>();
+
+  for (const item of items) {
+    const source = sourceLocation(item, options.cartLocation, options.split);
+    let location: string | null = null;
+    if (options.split === "region") {
+      const region = findRegion(regions, source);
+      location = region ? resolveCheckoutLocation(regions, region.code) : null;
+    } else {
+      location = resolveCheckoutLocation(regions, source);
+    }
+
+    if (!location) {
+      unresolved.add(source || "(none)");
+      continue;
+    }
+    byLocation.set(location, [...(byLocation.get(location) ?? []), item]);
+  }
+
+  const groups: CheckoutGroup<T>[] = [];
+  for (const [location, groupItems] of Array.from(byLocation.entries())) {
+    const summary = await computeCartSummary(groupItems, { customer: options.customer, location });
+    groups.push({ location, items: groupItems, summary });
+  }
+
+  const summary = groups.length > 0
+    ? combineSummaries(groups.map((g) => g.summary))
+    : await computeCartSummary([], { customer: options.customer, location: options.cartLocation });
+
+  return { groups, summary, unresolved: Array.from(unresolved) };
+}
+
+// ---------- Stock validation against the cached availability table ----------
+
+export type StockStatus = "available" | "partial" | "backorder";
+
+export interface StockAlternative {
+  location: string; // region code, usable as the cart line's warehouse
+  name: string;
+  available: number;
+}
+
+export interface LineStockCheck {
+  index: number;
+  sku: string;
+  warehouse: string;
+  requested: number;
+  available: number;
+  shortfall: number;
+  status: StockStatus;
+  backorderAccepted: boolean;
+  alternatives: StockAlternative[]; // other regions with stock, most first
+}
+
+/** Cin7 locations whose stock counts for a line: the location itself, or every depot in a region */
+function stockLocations(regions: RegionWithWarehouses[], value: string | null): string[] {
+  if (!value) return [];
+  const exact = regions.some((r) => r.warehouses.some((w) => w.cin7LocationName === value));
+  if (exact) return [value];
+  const region = findRegion(regions, value);
+  return region ? region.warehouses.map((w) => w.cin7LocationName) : [value];
+}
+
+/**
+ * Check each line against available stock where checkout will source it for this split mode
+ * (the cart location for 'none', the line's depot otherwise).
+ * Lines for the same SKU and depot draw down the same stock in cart order.
+ */
+export async function checkStock<T extends { sku: string; quantity: number; warehouse?: string; backorderAccepted?: boolean }>(
+  items: T[],
+  cartLocation: string | null,
+  split: SplitMode = "none"
+): Promise<LineStockCheck[]> {
+  const regions = await getRegionDirectory();
+  const products = await storage.getProductsBySkus(Array.from(new Set(items.map((i) => i.sku))));
+  const rows = await storage.getAvailabilityByProductIds(products.map((p) => p.id));
+
+  const productIdBySku = new Map(products.map((p) => [p.sku, p.id]));
+  const availableAt = (sku: string, locations: string[]) => {
+    const productId = productIdBySku.get(sku);
+    return rows
+      .filter((r) => r.productId === productId && locations.includes(r.warehouse.cin7LocationName))
+      .reduce((sum, r) => sum + Math.max(0, parseFloat(r.available ?? "0") || 0), 0);
+  };
+
+  const consumed = new Map<string, number>();
+  return items.map((item, index) => {
+    const warehouse = sourceLocation(item, cartLocation, split) || "";
+    const locations = stockLocations(regions, warehouse);
+    const key = `${item.sku}::${locations.join(",")}`;
+    const remaining = Math.max(0, availableAt(item.sku, locations) - (consumed.get(key) ?? 0));
+    consumed.set(key, (consumed.get(key) ?? 0) + item.quantity);
+
+    const available = Math.min(remaining, item.quantity);
+    const shortfall = item.quantity - available;
+    const status: StockStatus = shortfall === 0 ? "available" : available > 0 ? "partial" : "backorder";
+    const currentRegion = findRegion(regions, warehouse);
+
+    return {
+      index,
+      sku: item.sku,
+      warehouse,
+      requested: item.quantity,
+      available,
+      shortfall,
+      status,
+      backorderAccepted: status !== "available" && !!item.backorderAccepted,
+      alternatives: status === "available"
+        ? []
+        : regions
+            .filter((r) => r.id !== currentRegion?.id)
+            .map((r) => ({
+              location: r.code,
+              name: r.name,
+              available: availableAt(item.sku, r.warehouses.map((w) => w.cin7LocationName)),
+            }))
+            .filter((alt) => alt.available > 0)
+            .sort((a, b) => b.available - a.available),
+    };
+  });
+}
@@ -21,6 +21,21 @@ interface QuoteEmailData {
   location: string;
 }
 
+interface PasswordResetEmailData {
+  email: string;
+  name?: string | null;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+interface InvitationEmailData {
+  email: string;
+  name?: string | null;
+  companyName?: string | null;
+  acceptUrl: string;
+  expiresInDays: number;
+}
+
 export class EmailService {
   private config: EmailConfig;
   
@@ -162,6 +177,136 @@ export class EmailService {
       console.error('Failed to send admin notification:', error);
     }
   }
+
+  async sendPasswordReset(data: PasswordResetEmailData): Promise<void> {
+    if (!this.config.apiKey) {
+      console.warn('SendGrid API key not configured, skipping password reset email');
+      // Without SendGrid, local development still needs a way to follow the link
+      if (process.env.NODE_ENV !== 'production') {
+        console.log(`Password reset link for ${data.email}: ${data.resetUrl}`);
+      }
+      return;
+    }
+
+    const emailHtml = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Reset your password - Reivilo Industrial</title>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333;">
+      <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #1e3a8a; margin-bottom: 10px;">Reivilo Industrial</h1>
+        </div>
+
+        <h2 style="color: #1e3a8a; border-bottom: 2px solid #1e3a8a; padding-bottom: 10px;">Reset your password</h2>
+
+        <p>${data.name ? `Dear ${data.name},` : 'Hello,'}</p>
+
+        <p>We received a request to reset the password for your B2B Portal account. Use the button below to choose a new one.</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.resetUrl}" style="background-color: #1e3a8a; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Reset password</a>
+        </div>
+
+        <p>This link expires in ${data.expiresInMinutes} minutes and can only be used once.</p>
+        <p>If you didn't ask for a reset, you can ignore this email; your password won't change.</p>
+
+        <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+          <p style="margin: 5px 0;">
+            <a href="mailto:${this.config.supportEmail}" style="color: #1e3a8a;">Contact support</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>`;
+
+    try {
+      await sgMail.send({
+        to: data.email,
+        from: this.config.fromEmail,
+        subject: 'Reset your password - Reivilo Industrial',
+        html: emailHtml
+      });
+      console.log(`Password reset email sent to ${data.email}`);
+    } catch (error) {
+      console.error('SendGrid email error:', error);
+      throw new Error('Failed to send password reset email');
+    }
+  }
+
+  async sendInvitation(data: InvitationEmailData): Promise<void> {
+    if (!this.config.apiKey) {
+      console.warn('SendGrid API key not configured, skipping invitation email');
+      if (process.env.NODE_ENV !== 'production') {
+        console.log(`Invitation link for ${data.email}: ${data.acceptUrl}`);
+      }
+      return;
+    }
+
+    const emailHtml = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>You're invited to the Reivilo B2B Portal</title>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333;">
+      <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #1e3a8a; margin-bottom: 10px;">Reivilo Industrial</h1>
+          <p style="color: #64748b; margin: 0;">45 Years of Excellence in Industrial Solutions</p>
+        </div>
+
+        <h2 style="color: #1e3a8a; border-bottom: 2px solid #1e3a8a; padding-bottom: 10px;">You're invited to the B2B Portal</h2>
+
+        <p>${data.name ? `Dear ${data.name},` : 'Hello,'}</p>
+
+        <p>You've been given access to the Reivilo B2B Portal${data.companyName ? ` for <strong>${data.companyName}</strong>` : ''}, with live stock, your account pricing and online quotes.</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.acceptUrl}" style="background-color: #1e3a8a; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Accept invitation</a>
+        </div>
+
+        <p>You'll choose your own password when you accept. This invitation expires in ${data.expiresInDays} days.</p>
+
+        <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+          <p style="margin: 5px 0;">
+            <a href="mailto:${this.config.supportEmail}" style="color: #1e3a8a;">Contact our sales team</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>`;
+
+    try {
+      await sgMail.send({
+        to: data.email,
+        from: this.config.fromEmail,
+        subject: "You're invited to the Reivilo B2B Portal",
+        html: emailHtml
+      });
+      console.log(`Invitation email sent to ${data.email}`);
+    } catch (error) {
+      console.error('SendGrid email error:', error);
+      throw new Error('Failed to send invitation email');
+    }
+  }
 }
 
-export const emailService = new EmailService();
\ No newline at end of file
+export const emailService = new EmailService();
+
+/**
+ * Absolute link into the portal for emails. PORTAL_URL is required in production so a forged
+ * Host header can't point reset/invitation links at another site; development falls back to the request.
+ */
+export function portalLink(req: any, path: string): string {
+  const base = process.env.PORTAL_URL
+    || (process.env.NODE_ENV === 'production' ? '' : `${req.protocol}://${req.get('host')}`);
+  if (!base) {
+    throw new Error('PORTAL_URL must be set to send links by email');
+  }
+  return `${base.replace(/\/+$/, '')}${path}`;
+}
\ No newline at end of file
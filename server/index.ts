@@ -30,25 +30,6 @@ if (!process.env.SESSION_SECRET) {
 // ---------- Auth (minimal, works today) ----------
 type User = { id: string; email: string; role: "admin" | "user"; name?: string };
 
-function authenticate(email?: string, password?: string): User | null {
-  if (!email || !password) return null;
-
-  // Use environment variables with fallback credentials for production
-  const ADMIN_EMAIL = process.env.ADMIN_EMAIL;
-  const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
-  
-  // Fallback credentials for production/development
-  const adminEmail = ADMIN_EMAIL || "ronald@reiviloindustrial.co.za";
-  const adminPassword = ADMIN_PASSWORD || "Ron@Reiv25";
-  
-  log(`[LOGIN] Admin email available: ${!!ADMIN_EMAIL}, Using: ${adminEmail}`);
-
-  if (email.toLowerCase() === adminEmail.toLowerCase() && password === adminPassword) {
-    return { id: "admin-1", email: adminEmail.toLowerCase(), role: "admin", name: "Admin" };
-  }
-  return null;
-}
-
 function requireAuth(req: Request, res: Response, next: NextFunction) {
   const user = (req.session as any)?.user as User | undefined;
   if (user) return next();
@@ -65,6 +46,7 @@ import { registerRoutes } from "./routes";
 // Import normally but add null checks throughout the app
 import { syncScheduler } from "./scheduler";
 import { cin7Service } from "./services/cin7";
+import { ProductSyncService } from "./sync";
 
 log(`🔧 External services imported - will validate credentials at runtime`);
 
@@ -94,14 +76,9 @@ app.get("/api/test-connection", async (_req, res) => {
 });
 
 // ---------- Inventory helpers ----------
-const ALLOWED_LOCATIONS = ["B-CPT", "B-VDB", "S-BFN", "S-CPT", "S-POM"] as const;
-
-function toRegion(name: string) {
-  if (["B-VDB", "S-POM"].includes(name)) return "JHB";
-  if (["B-CPT", "S-CPT"].includes(name)) return "CPT";
-  if (name === "S-BFN") return "BFN";
-  return "OTHER";
-}
+// Warehouse -> region grouping lives in the regions table (see ./regions)
+import { getRegionDirectory, regionForLocation, resolveCheckoutLocation, seedDefaultRegions } from "./regions";
+import { priceTierForUser, resolvePricesBySku } from "./pricing";
 
 function capQty(qty: number) {
   if (qty >= 20) return "20+";
@@ -112,12 +89,14 @@ function capQty(qty: number) {
 app.get("/api/warehouses", async (_req, res) => {
   try {
     // We only need to return the grouped/visible warehouses for the UI
-    const grouped = [
-      { id: 1, name: "JHB Warehouse", internalLocations: ["B-VDB", "S-POM"] },
-      { id: 2, name: "CPT Warehouse", internalLocations: ["B-CPT", "S-CPT"] },
-      { id: 3, name: "BFN Warehouse", internalLocations: ["S-BFN"] },
-    ];
-    res.json(grouped);
+    const [regions, cache] = await Promise.all([getRegionDirectory(), ProductSyncService.cacheStatus()]);
+    const grouped = regions.map((r) => ({
+      id: r.id,
+      code: r.code,
+      name: r.name,
+      internalLocations: r.warehouses.map((w) => w.cin7LocationName),
+    }));
+    res.json({ warehouses: grouped, ...cache });
   } catch (e: any) {
     res.status(500).json({ message: "Failed to fetch warehouses" });
   }
@@ -225,44 +204,70 @@ app.get("/api/products", async (req, res) => {
 */
 
 // ---------- Raw availability (debug-heavy) ----------
+// While the Cin7 circuit is open, rows come from the availability table as of the last sync
+async function cachedAvailability(sku?: string) {
+  const rows = await storage.getCachedAvailability(sku);
+  return rows.map((r) => ({
+    SKU: r.sku,
+    Name: r.name ?? r.sku,
+    Location: r.location,
+    Available: parseFloat(r.available ?? "0") || 0,
+    OnHand: parseFloat(r.onHand ?? "0") || 0,
+    OnOrder: parseFloat(r.onOrder ?? "0") || 0,
+  }));
+}
+
 app.get("/api/availability", async (req, res) => {
   try {
     const sku = req.query.sku as string | undefined;
     let all: any[] = [];
-    let page = 1;
-    for (;;) {
-      const pageData = await cin7Service.getProductAvailability(
-        "", // empty location to get all locations
-        page,
-        sku ? 50 : 1000
-      );
-      const rows = pageData.data || [];
-      all = all.concat(rows);
-      if (rows.length < 1000 || sku) break;
-      page += 1;
+    let stale = cin7Service.isCircuitOpen();
+
+    if (!stale) {
+      try {
+        let page = 1;
+        for (;;) {
+          const pageData = await cin7Service.getProductAvailability(
+            "", // empty location to get all locations
+            page,
+            sku ? 50 : 1000
+          );
+          const rows = pageData.data || [];
+          all = all.concat(rows);
+          if (pageData.pagination.fetched < 1000 || sku) break;
+          page += 1;
+        }
+      } catch (e: any) {
+        // The failure that trips the breaker falls back like any call made while it is open
+        if (!cin7Service.isCircuitOpen()) throw e;
+        stale = true;
+      }
+    }
+    if (stale) {
+      log(`⚠️ Cin7 circuit open, serving cached availability`);
+      all = await cachedAvailability(sku);
     }
 
+    const regions = await getRegionDirectory();
     const filtered = all
-      .filter((r) => ALLOWED_LOCATIONS.includes(r.Location))
+      .filter((r) => !!regionForLocation(regions, r.Location))
       .filter((r) => (sku ? r.SKU === sku : true))
       .map((r) => ({
         productSku: r.SKU,
         productName: r.Name,
-        warehouseName:
-          toRegion(r.Location) === "JHB"
-            ? "JHB Warehouse"
-            : toRegion(r.Location) === "CPT"
-            ? "CPT Warehouse"
-            : toRegion(r.Location) === "BFN"
-            ? "BFN Warehouse"
-            : r.Location,
+        warehouseName: regionForLocation(regions, r.Location)?.name ?? r.Location,
         internalLocation: r.Location,
         available: r.Available || 0,
         onHand: r.OnHand || 0,
         onOrder: r.OnOrder || 0,
       }));
 
-    res.json(filtered);
+    const cache = await ProductSyncService.cacheStatus();
+    res.json({
+      availability: filtered,
+      stale,
+      lastSyncedAt: stale ? cache.lastSyncedAt : new Date().toISOString(),
+    });
   } catch (e: any) {
     res.status(500).json({ error: String(e.message || e) });
   }
@@ -284,6 +289,13 @@ app.post("/api/checkout", requireAuth, async (req, res) => {
       return res.status(400).json({ error: "Cart is empty" });
     }
 
+    const regions = await getRegionDirectory();
+    const priceTier = await priceTierForUser((req.session as any)?.user);
+    const prices = await resolvePricesBySku(cartItems.map((it) => it.sku), priceTier);
+    const unpriced = cartItems.filter((it) => (prices.get(it.sku)?.price ?? null) === null).map((it) => it.sku);
+    if (unpriced.length > 0) {
+      return res.status(400).json({ error: `No price is available for ${unpriced.join(", ")}` });
+    }
     const payload = {
       CustomerName: customerDetails?.companyName || "B2B Portal Customer",
       Status: "UNAUTHORISED",
@@ -292,13 +304,9 @@ app.post("/api/checkout", requireAuth, async (req, res) => {
       Lines: cartItems.map((it: any, idx: number) => ({
         SKU: it.sku,
         Quantity: Number(it.quantity || 1),
-        Price: Number(it.price || 0),
+        Price: prices.get(it.sku)!.price!,
         LineOrder: idx + 1,
-        Location: it.warehouse?.includes("JHB")
-          ? "B-VDB"
-          : it.warehouse?.includes("CPT")
-          ? "B-CPT"
-          : "S-BFN",
+        Location: resolveCheckoutLocation(regions, it.warehouse) ?? regions[0]?.checkoutLocation ?? undefined,
       })),
     };
 
@@ -405,6 +413,7 @@ try {
   app.listen(PORT, HOST, () => {
     log(`🚀 Reivilo B2B Portal listening on http://${HOST}:${PORT}`);
     log(`✅ Server started successfully in ${process.env.NODE_ENV || 'development'} mode`);
+    seedDefaultRegions().catch((error) => log(`❌ Failed to seed default regions: ${error.message || error}`));
   });
 } catch (error: any) {
   log(`❌ Failed to start server: ${error.message || error}`);
@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import { emailService, portalLink } from "./email";
+import { createOneTimeToken } from "./passwords";
+import { SlidingWindowLimiter } from "./throttle";
+import type { UserInvitation } from "@shared/schema";
+
+/**
+ * Admin-issued invitations. Instead of an admin choosing a password for a buyer, the buyer
+ * gets an emailed accept link (valid INVITE_TTL_DAYS) and sets their own password, which
+ * activates the pending account. Resending issues a new link and retires the old one.
+ */
+
+export const INVITE_TTL_DAYS = Number(process.env.INVITE_TTL_DAYS || 7);
+
+// Accept attempts per client IP; tokens are unguessable, this just caps scripted probing
+export const inviteAttemptsByIp = new SlidingWindowLimiter({ limit: 10, windowMs: 15 * 60_000 });
+
+const inviteExpiry = () => new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60_000);
+
+/**
+ * Email the accept link for a freshly created or renewed invitation. A send failure is
+ * reported rather than thrown: the invitation is already stored and can be resent.
+ */
+async function sendInvitationEmail(req: any, invitation: UserInvitation, token: string, name?: string | null): Promise<boolean> {
+  try {
+    const customer = invitation.customerId ? await storage.getCustomerById(invitation.customerId) : undefined;
+    await emailService.sendInvitation({
+      email: invitation.email,
+      name,
+      companyName: customer?.companyName,
+      acceptUrl: portalLink(req, `/auth?invite=${encodeURIComponent(token)}`),
+      expiresInDays: INVITE_TTL_DAYS,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[INVITE] Failed to email invitation ${invitation.id}:`, error);
+    return false;
+  }
+}
+
+/** Create the pending user and invitation, then send the email */
+export async function inviteUser(
+  req: any,
+  details: { email: string; name?: string | null; customerId: number; invitedBy: string | null }
+): Promise<{ invitation: UserInvitation; emailSent: boolean }> {
+  const { token, tokenHash } = createOneTimeToken();
+  const invitation = await storage.createInvitation({ ...details, tokenHash, expiresAt: inviteExpiry() });
+  console.log(`[INVITE] Invited ${invitation.email} to customer ${invitation.customerId}`);
+  return { invitation, emailSent: await sendInvitationEmail(req, invitation, token, details.name) };
+}
+
+/** New link for a pending invitation (also revives one that expired unaccepted) */
+export async function resendInvitation(
+  req: any,
+  invitation: UserInvitation
+): Promise<{ invitation: UserInvitation; emailSent: boolean } | undefined> {
+  const { token, tokenHash } = createOneTimeToken();
+  const renewed = await storage.renewInvitation(invitation.id, tokenHash, inviteExpiry());
+  if (!renewed) return undefined;
+  const user = renewed.userId ? await storage.getUser(renewed.userId) : undefined;
+  console.log(`[INVITE] Resent invitation ${renewed.id} to ${renewed.email}`);
+  return { invitation: renewed, emailSent: await sendInvitationEmail(req, renewed, token, user?.name) };
+}
@@ -0,0 +1,93 @@
+import { storage } from "./storage";
+import { SlidingWindowLimiter, clientIp } from "./throttle";
+
+/**
+ * Brute-force protection for /api/login.
+ * - Per account (stored on the user row, so it holds across Cloud Run instances): after
+ *   LOGIN_DELAY_AFTER consecutive failures each further failure is answered progressively
+ *   slower, and at LOGIN_MAX_FAILURES the account is locked for LOGIN_LOCKOUT_MINUTES.
+ *   Every lockout is recorded; admins can unlock early.
+ * - Per client IP (in memory, per instance): failures across any emails are counted over a
+ *   window, slowed the same way, and refused outright past LOGIN_IP_MAX_FAILURES.
+ */
+
+const config = {
+  delayAfter: Number(process.env.LOGIN_DELAY_AFTER || 3),
+  maxFailures: Number(process.env.LOGIN_MAX_FAILURES || 10),
+  lockoutMs: Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60_000,
+  ipMaxFailures: Number(process.env.LOGIN_IP_MAX_FAILURES || 30),
+  maxDelayMs: 8_000,
+};
+
+const ipFailures = new SlidingWindowLimiter({ limit: config.ipMaxFailures, windowMs: 15 * 60_000 });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** 1s, 2s, 4s... once failures pass the free allowance, capped at maxDelayMs */
+function delayFor(failures: number): number {
+  const over = failures - config.delayAfter;
+  return over <= 0 ? 0 : Math.min(1000 * 2 ** (over - 1), config.maxDelayMs);
+}
+
+export type LoginBlock = { reason: "ip" | "account"; retryAfterMs: number };
+
+/** Refuse the attempt before checking the password if the IP or the account is blocked */
+export function loginBlocked(req: any, user: any): LoginBlock | null {
+  const ip = clientIp(req);
+  if (ipFailures.count(ip) >= config.ipMaxFailures) {
+    return { reason: "ip", retryAfterMs: ipFailures.retryAfter(ip) };
+  }
+  const lockedUntil = user?.lockedUntil ? new Date(user.lockedUntil).getTime() : 0;
+  if (lockedUntil > Date.now()) {
+    return { reason: "account", retryAfterMs: lockedUntil - Date.now() };
+  }
+  return null;
+}
+
+/**
+ * Count a failed attempt against the IP and (when the email is a real account) the account,
+ * lock the account when it reaches the limit, then hold the response back progressively.
+ */
+export async function recordLoginFailure(req: any, user: any): Promise<void> {
+  const ip = clientIp(req);
+  ipFailures.hit(ip);
+  let failures = ipFailures.count(ip);
+
+  if (user) {
+    const updated = await storage.recordFailedLogin(user.id, config.maxFailures, config.lockoutMs);
+    const accountFailures = updated?.failedLoginCount ?? 0;
+    failures = Math.max(failures, accountFailures);
+
+    // Only the failure that sets a fresh lock is recorded, not every one while it holds
+    const wasLocked = user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+    const isLocked = updated?.lockedUntil && new Date(updated.lockedUntil).getTime() > Date.now();
+    if (updated && isLocked && !wasLocked) {
+      console.warn(`[LOGIN] Account ${user.id} locked after ${accountFailures} failed attempts`);
+      await storage.recordAccountLockEvent({
+        userId: user.id,
+        email: user.email,
+        event: "LOCKED",
+        failedAttempts: accountFailures,
+        lockedUntil: updated.lockedUntil,
+        ip,
+      });
+    }
+  }
+
+  await sleep(delayFor(failures));
+}
+
+/** Admin unlock: clears the failure count and lock, and records who did it */
+export async function unlockAccount(req: any, userId: string) {
+  const user = await storage.unlockUser(userId);
+  if (!user) return undefined;
+  await storage.recordAccountLockEvent({
+    userId: user.id,
+    email: user.email,
+    event: "UNLOCKED",
+    ip: clientIp(req),
+    actorId: req.user?.id ?? null,
+  });
+  console.log(`[LOGIN] Account ${user.id} unlocked by ${req.user?.email}`);
+  return user;
+}
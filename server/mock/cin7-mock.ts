@@ -0,0 +1,363 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+
+/**
+ * Local stand-in for the Dear/Cin7 Core external API, so sync and checkout can run offline.
+ * Serves ProductAvailability, Product, Customer, Ref/Warehouse, ref/tax, Sale and saleList
+ * from JSON fixtures, in the shapes Cin7Service reads. Faults (latency, 429, 5xx, HTML error
+ * pages) are injected by rate, by a queue set through /__mock/config, or per request via the
+ * x-mock-fault header.
+ *
+ *   npm run mock:cin7
+ *   CIN7_BASE_URL=http://localhost:4010/externalapi/v2/ npm run dev
+ */
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type MockFault = "429" | "500" | "502" | "503" | "html";
+
+export interface MockConfig {
+  latencyMs: [number, number]; // min, max per request
+  rateLimitPerMinute: number; // 0 = unlimited; otherwise a 60s sliding window like Cin7's
+  retryAfterSeconds: number;
+  faultRates: { "429": number; "5xx": number; html: number }; // probability 0..1 per request
+  failNext: MockFault[]; // consumed one per request, before the rates are rolled
+  accountId?: string; // when set, requests must send matching auth headers
+  appKey?: string;
+}
+
+interface Fixtures {
+  products: any[];
+  availability: any[];
+  customers: any[];
+  warehouses: any[];
+  taxRules: any[];
+}
+
+interface MockSale {
+  ID: string;
+  Customer?: string;
+  CustomerID?: string;
+  Location?: string;
+  CustomerReference?: string;
+  Note?: string;
+  Status: string;
+  Order: { SaleOrderNumber: string; Status: string; Lines: any[]; AdditionalCharges: any[] };
+  CombinedPickingStatus: string;
+  CombinedPackingStatus: string;
+  CombinedShippingStatus: string;
+  CombinedInvoiceStatus: string;
+  LastModifiedOn: string;
+}
+
+interface RequestLogEntry {
+  method: string;
+  path: string;
+  status: number;
+  fault: MockFault | null;
+  at: string;
+}
+
+const BASE_PATH = "/externalapi/v2";
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, "fixtures");
+const MAX_PAGE_SIZE = 1000;
+const REQUEST_LOG_SIZE = 200;
+
+function parseRange(value: string | undefined): [number, number] {
+  if (!value) return [0, 0];
+  const [min, max] = value.split("-").map((v) => Number(v.trim()) || 0);
+  return [min, max ?? min];
+}
+
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): MockConfig {
+  return {
+    latencyMs: parseRange(env.CIN7_MOCK_LATENCY_MS),
+    rateLimitPerMinute: Number(env.CIN7_MOCK_RATE_LIMIT_PER_MINUTE || 0),
+    retryAfterSeconds: Number(env.CIN7_MOCK_RETRY_AFTER_SECONDS || 5),
+    faultRates: {
+      "429": Number(env.CIN7_MOCK_429_RATE || 0),
+      "5xx": Number(env.CIN7_MOCK_5XX_RATE || 0),
+      html: Number(env.CIN7_MOCK_HTML_RATE || 0),
+    },
+    failNext: [],
+    accountId: env.CIN7_MOCK_ACCOUNT_ID || undefined,
+    appKey: env.CIN7_MOCK_APP_KEY || undefined,
+  };
+}
+
+export function loadFixtures(dir = DEFAULT_FIXTURES_DIR): Fixtures {
+  const read = (file: string) => JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+  return {
+    products: read("products.json"),
+    availability: read("availability.json"),
+    customers: read("customers.json"),
+    warehouses: read("warehouses.json"),
+    taxRules: read("tax-rules.json"),
+  };
+}
+
+// What Cin7 serves for unknown paths, bad credentials and some outages
+const htmlPage = (title: string) =>
+  `<!DOCTYPE html><html><head><title>${title}</title></head><body><h1>${title}</h1></body></html>`;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Cin7 accepts paging/filter params in the query string or the body; keys are case-insensitive */
+function params(req: Request): Record<string, any> {
+  const merged: Record<string, any> = {};
+  for (const source of [req.query, req.body]) {
+    if (source && typeof source === "object") {
+      for (const [key, value] of Object.entries(source)) merged[key.toLowerCase()] = value;
+    }
+  }
+  return merged;
+}
+
+function paginate<T>(rows: T[], p: Record<string, any>): { page: T[]; total: number } {
+  const page = Math.max(1, Number(p.page) || 1);
+  const limit = Math.min(Math.max(1, Number(p.limit) || 100), MAX_PAGE_SIZE);
+  return { page: rows.slice((page - 1) * limit, page * limit), total: rows.length };
+}
+
+// Some Cin7 accounts spell the product code "Sku"; the fixtures carry both shapes
+const skuOf = (product: any): string => String(product.SKU ?? product.Sku ?? "");
+
+const modifiedSince = (since: unknown) => (row: any) =>
+  !since || !row.LastModified || new Date(row.LastModified) > new Date(String(since));
+
+function cin7Error(res: Response, status: number, message: string) {
+  res.status(status).json({ ErrorCode: status, ErrorMessage: message });
+}
+
+export function createCin7Mock(options: { config?: Partial<MockConfig>; fixturesDir?: string } = {}) {
+  const config: MockConfig = { ...configFromEnv(), ...options.config };
+  let fixtures = loadFixtures(options.fixturesDir);
+  let sales = new Map<string, MockSale>();
+  let saleCounter = 0;
+  let recentCalls: number[] = [];
+  const requestLog: RequestLogEntry[] = [];
+
+  const app = express();
+  app.use(express.json());
+
+  // ---------- Control endpoints (not part of the Cin7 API) ----------
+
+  app.get("/__mock/config", (_req, res) => res.json(config));
+
+  app.post("/__mock/config", (req, res) => {
+    const patch = req.body || {};
+    if (patch.latencyMs !== undefined) {
+      config.latencyMs = Array.isArray(patch.latencyMs) ? patch.latencyMs : [patch.latencyMs, patch.latencyMs];
+    }
+    if (patch.rateLimitPerMinute !== undefined) config.rateLimitPerMinute = Number(patch.rateLimitPerMinute);
+    if (patch.retryAfterSeconds !== undefined) config.retryAfterSeconds = Number(patch.retryAfterSeconds);
+    if (patch.faultRates) config.faultRates = { ...config.faultRates, ...patch.faultRates };
+    if (Array.isArray(patch.failNext)) config.failNext = patch.failNext.map(String) as MockFault[];
+    res.json(config);
+  });
+
+  // Reload fixtures and forget created sales, the rate window and the request log
+  app.post("/__mock/reset", (_req, res) => {
+    fixtures = loadFixtures(options.fixturesDir);
+    sales = new Map();
+    saleCounter = 0;
+    recentCalls = [];
+    config.failNext = [];
+    requestLog.length = 0;
+    res.json({ success: true });
+  });
+
+  app.get("/__mock/requests", (_req, res) => res.json(requestLog));
+
+  app.get("/__mock/sales", (_req, res) => res.json(Array.from(sales.values())));
+
+  // Move a created sale along (authorise, pick, pack, ship, void) to exercise quote status sync
+  app.post("/__mock/sales/:id", (req, res) => {
+    const sale = sales.get(req.params.id);
+    if (!sale) return cin7Error(res, 404, `Sale ${req.params.id} not found`);
+    const { OrderStatus, ...fields } = req.body || {};
+    Object.assign(sale, fields, { LastModifiedOn: new Date().toISOString() });
+    if (OrderStatus) sale.Order.Status = OrderStatus;
+    res.json(sale);
+  });
+
+  // ---------- Cin7 API ----------
+
+  const api = express.Router({ caseSensitive: false });
+
+  // Latency, auth, rate limiting and fault injection, in that order
+  api.use(async (req: Request, res: Response, next: NextFunction) => {
+    const [min, max] = config.latencyMs;
+    if (max > 0) await sleep(min + Math.random() * Math.max(0, max - min));
+
+    let fault: MockFault | null = null;
+    res.on("finish", () => {
+      requestLog.push({ method: req.method, path: req.path, status: res.statusCode, fault, at: new Date().toISOString() });
+      if (requestLog.length > REQUEST_LOG_SIZE) requestLog.shift();
+    });
+
+    const accountId = req.header("api-auth-accountid");
+    const appKey = req.header("api-auth-applicationkey");
+    if (
+      (config.accountId && accountId !== config.accountId) ||
+      (config.appKey && appKey !== config.appKey)
+    ) {
+      return cin7Error(res, 403, "Incorrect credentials!");
+    }
+
+    const now = Date.now();
+    recentCalls = recentCalls.filter((t) => now - t < 60 * 1000);
+    if (config.rateLimitPerMinute > 0 && recentCalls.length >= config.rateLimitPerMinute) {
+      fault = "429";
+    } else {
+      recentCalls.push(now);
+      const forced = req.header("x-mock-fault") as MockFault | undefined;
+      fault = forced || config.failNext.shift() || null;
+      if (!fault) {
+        const roll = Math.random();
+        const { faultRates } = config;
+        if (roll < faultRates["429"]) fault = "429";
+        else if (roll < faultRates["429"] + faultRates["5xx"]) fault = "503";
+        else if (roll < faultRates["429"] + faultRates["5xx"] + faultRates.html) fault = "html";
+      }
+    }
+
+    if (fault === "429") {
+      res.setHeader("Retry-After", String(config.retryAfterSeconds));
+      return cin7Error(res, 429, "API calls quota exceeded! Maximum admitted 60 per 1m.");
+    }
+    if (fault === "html") {
+      return res.status(200).type("html").send(htmlPage("Cin7 Core - Service Unavailable"));
+    }
+    if (fault) {
+      return cin7Error(res, Number(fault) || 503, "Service temporarily unavailable");
+    }
+    next();
+  });
+
+  api.all("/ProductAvailability", (req, res) => {
+    const p = params(req);
+    const rows = fixtures.availability
+      .filter((r) => !p.location || r.Location === p.location)
+      .filter((r) => !p.sku || r.SKU === p.sku)
+      .filter(modifiedSince(p.modifiedsince));
+    const { page, total } = paginate(rows, p);
+    res.setHeader("x-total-count", String(total));
+    res.json(page);
+  });
+
+  api.all("/Product", (req, res) => {
+    const p = params(req);
+    const search = String(p.search || "").toLowerCase();
+    const rows = fixtures.products
+      .filter((r) => !search || skuOf(r).toLowerCase().includes(search) || String(r.Name).toLowerCase().includes(search))
+      .filter(modifiedSince(p.modifiedsince));
+    const { page, total } = paginate(rows, p);
+    res.setHeader("x-total-count", String(total));
+    res.json(page);
+  });
+
+  api.all("/Customer", (req, res) => {
+    const p = params(req);
+    const rows = fixtures.customers.filter(modifiedSince(p.modifiedsince));
+    const { page, total } = paginate(rows, p);
+    res.setHeader("x-total-count", String(total));
+    res.json(page);
+  });
+
+  api.all("/Ref/Warehouse", (req, res) => {
+    const { page, total } = paginate(fixtures.warehouses, params(req));
+    res.setHeader("x-total-count", String(total));
+    res.json(page);
+  });
+
+  api.get("/ref/tax", (req, res) => {
+    const { page, total } = paginate(fixtures.taxRules, params(req));
+    res.json({ Total: total, Page: Number(params(req).page) || 1, TaxRuleList: page });
+  });
+
+  api.post("/Sale", (req, res) => {
+    const body = req.body || {};
+    if (!body.Customer && !body.CustomerID) {
+      return cin7Error(res, 400, "Customer or CustomerID is required");
+    }
+    if (!Array.isArray(body.Lines) || body.Lines.length === 0) {
+      return cin7Error(res, 400, "Sale must have at least one line");
+    }
+    const unknown = body.Lines.find((l: any) => !fixtures.products.some((p) => skuOf(p) === l.SKU));
+    if (unknown) {
+      return cin7Error(res, 400, `Product with SKU '${unknown.SKU}' not found`);
+    }
+
+    saleCounter++;
+    const sale: MockSale = {
+      ID: randomUUID(),
+      Customer: body.Customer,
+      CustomerID: body.CustomerID,
+      Location: body.Location,
+      CustomerReference: body.CustomerReference,
+      Note: body.Note,
+      Status: "ORDERING",
+      Order: {
+        SaleOrderNumber: `SO-${String(saleCounter).padStart(5, "0")}`,
+        Status: body.OrderStatus || "NOTAUTHORISED",
+        Lines: body.Lines,
+        AdditionalCharges: body.AdditionalCharges || [],
+      },
+      CombinedPickingStatus: "NOT PICKED",
+      CombinedPackingStatus: "NOT PACKED",
+      CombinedShippingStatus: "NOT SHIPPED",
+      CombinedInvoiceStatus: "NOT INVOICED",
+      LastModifiedOn: new Date().toISOString(),
+    };
+    sales.set(sale.ID, sale);
+    res.json(sale);
+  });
+
+  api.get("/Sale", (req, res) => {
+    const sale = sales.get(String(params(req).id || ""));
+    if (!sale) return cin7Error(res, 404, `Sale not found`);
+    res.json(sale);
+  });
+
+  api.get("/saleList", (req, res) => {
+    const p = params(req);
+    const rows = Array.from(sales.values())
+      .filter((s) => !p.updatedsince || new Date(s.LastModifiedOn) > new Date(String(p.updatedsince)))
+      .map((s) => ({
+        SaleID: s.ID,
+        OrderNumber: s.Order.SaleOrderNumber,
+        Status: s.Status,
+        OrderStatus: s.Order.Status,
+        CombinedPickingStatus: s.CombinedPickingStatus,
+        CombinedPackingStatus: s.CombinedPackingStatus,
+        CombinedShippingStatus: s.CombinedShippingStatus,
+        CombinedInvoiceStatus: s.CombinedInvoiceStatus,
+        Updated: s.LastModifiedOn,
+      }));
+    const { page, total } = paginate(rows, p);
+    res.json({ Total: total, Page: Number(p.page) || 1, SaleList: page });
+  });
+
+  // Anything else gets the HTML 404 page Cin7 serves for unknown endpoints
+  api.use((_req, res) => {
+    res.status(404).type("html").send(htmlPage("404 - Page not found"));
+  });
+
+  app.use(BASE_PATH, api);
+  return app;
+}
+
+export function startCin7Mock(port = Number(process.env.CIN7_MOCK_PORT || 4010)) {
+  const app = createCin7Mock({ fixturesDir: process.env.CIN7_MOCK_FIXTURES || undefined });
+  return app.listen(port, () => {
+    console.log(`🧪 Cin7 mock listening on http://localhost:${port}${BASE_PATH}/`);
+  });
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  startCin7Mock();
+}
@@ -0,0 +1,154 @@
+import type { QuoteOutboxEntry } from "@shared/schema";
+import { cin7Service } from "./services/cin7";
+import { storage } from "./storage";
+
+/**
+ * Quote outbox: checkout stores the quote and its Cin7 Sale payload in one transaction,
+ * then this module pushes it. Failures that can't have reached Cin7 back off and retry until
+ * the entry is SENT; anything else goes DEAD and waits for an admin to check Cin7 and replay.
+ * POST Sale isn't idempotent, so a push that may have landed is never sent again automatically.
+ */
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS || 8);
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 20;
+// A SENDING entry untouched for this long was orphaned mid-push (crashed worker, failed bookkeeping)
+const STALE_SENDING_MS = 5 * 60 * 1000;
+// Errors where the request never got to Cin7: the connection was refused, DNS failed, or the
+// breaker failed the call fast. Timeouts, resets and 5xx are ambiguous, the Sale may exist.
+const NOT_SENT_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "ERR_CIRCUIT_OPEN"];
+const NEEDS_REVIEW = "Needs review: Cin7 may have created this Sale, check before replaying";
+
+let processing = false;
+
+// Only a rate limit or a call that never reached Cin7 is safe to send again
+function isRetryable(error: any): boolean {
+  return error?.status === 429 || (!error?.status && NOT_SENT_CODES.includes(error?.code));
+}
+
+// No response, or one that doesn't prove Cin7 rejected the Sale
+function isAmbiguous(error: any): boolean {
+  const status = error?.status;
+  return !isRetryable(error) && (!status || status === 408 || status >= 500);
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * Math.pow(2, attempts - 1), MAX_DELAY_MS);
+}
+
+async function send(entry: QuoteOutboxEntry): Promise<QuoteOutboxEntry> {
+  const attempts = entry.attempts + 1;
+  const quote = await storage.getQuoteById(entry.quoteId);
+
+  let response: any;
+  try {
+    response = await cin7Service.createQuote(entry.payload as any);
+  } catch (error: any) {
+    const message = error?.message || "Unknown error";
+
+    if (!isRetryable(error) || attempts >= MAX_ATTEMPTS) {
+      const lastError = isAmbiguous(error) ? `${NEEDS_REVIEW} (${message})` : message;
+      console.error(`[OUTBOX] Quote ${entry.quoteId} dead after ${attempts} attempts: ${lastError}`);
+      if (quote) {
+        await storage.recordQuoteStatus(quote, "FAILED", { source: "outbox" });
+      }
+      return (await storage.updateOutboxEntry(entry.id, { status: "DEAD", attempts, lastError }))!;
+    }
+
+    const delay = backoffDelay(attempts);
+    console.warn(`[OUTBOX] Quote ${entry.quoteId} attempt ${attempts} failed, retrying in ${delay / 1000}s: ${message}`);
+    return (await storage.updateOutboxEntry(entry.id, {
+      status: "PENDING",
+      attempts,
+      lastError: message,
+      nextAttemptAt: new Date(Date.now() + delay),
+    }))!;
+  }
+
+  // Cin7 has the Sale now. Nothing below may send the entry back to PENDING, or the next
+  // attempt would create a duplicate; bookkeeping failures are logged, and an entry left
+  // SENDING is swept to DEAD for review by the worker, never sent again.
+  const erpSaleId = response?.ID || response?.SaleID || null;
+  console.log(`[OUTBOX] Quote ${entry.quoteId} sent to Cin7 as sale ${erpSaleId} (attempt ${attempts})`);
+
+  let sent: QuoteOutboxEntry | undefined;
+  try {
+    sent = await storage.updateOutboxEntry(entry.id, {
+      status: "SENT",
+      attempts,
+      lastError: null,
+      erpSaleId,
+      sentAt: new Date(),
+    });
+  } catch (error: any) {
+    console.error(`[OUTBOX] Quote ${entry.quoteId} sent as sale ${erpSaleId} but the outbox entry wasn't updated:`, error.message);
+  }
+
+  if (quote) {
+    try {
+      await storage.recordQuoteStatus(quote, "NOTAUTHORISED", { source: "outbox", updates: { erpSaleId } });
+    } catch (error: any) {
+      console.error(`[OUTBOX] Quote ${entry.quoteId} sent as sale ${erpSaleId} but its status wasn't recorded:`, error.message);
+    }
+  }
+
+  return sent ?? { ...entry, status: "SENT", attempts, lastError: null, erpSaleId };
+}
+
+/** Push a quote's outbox entry straight away; undefined if another worker already has it */
+export async function dispatchQuote(quoteId: number): Promise<QuoteOutboxEntry | undefined> {
+  const entry = await storage.claimOutboxEntryForQuote(quoteId);
+  return entry ? await send(entry) : undefined;
+}
+
+/** Worker tick: push every entry whose backoff has elapsed */
+export async function processOutbox(): Promise<{ sent: number; retrying: number; dead: number }> {
+  const counts = { sent: 0, retrying: 0, dead: 0 };
+  if (processing) return counts;
+  processing = true;
+
+  try {
+    // An orphaned push may have reached Cin7, so it goes to an admin rather than back out
+    const orphaned = await storage.abandonStaleOutboxEntries(
+      new Date(Date.now() - STALE_SENDING_MS),
+      `${NEEDS_REVIEW} (push interrupted while sending)`
+    );
+    for (const entry of orphaned) {
+      console.error(`[OUTBOX] Quote ${entry.quoteId} was left sending, marked dead for review`);
+      const quote = await storage.getQuoteById(entry.quoteId);
+      if (quote && !quote.erpSaleId) {
+        await storage.recordQuoteStatus(quote, "FAILED", { source: "outbox" });
+      }
+      counts.dead++;
+    }
+
+    const entries = await storage.claimDueOutboxEntries(BATCH_SIZE);
+    for (const entry of entries) {
+      const result = await send(entry);
+      if (result.status === "SENT") counts.sent++;
+      else if (result.status === "DEAD") counts.dead++;
+      else counts.retrying++;
+    }
+    if (entries.length + orphaned.length > 0) {
+      console.log(`[OUTBOX] Processed ${entries.length + orphaned.length} entries: ${counts.sent} sent, ${counts.retrying} retrying, ${counts.dead} dead`);
+    }
+  } catch (error: any) {
+    console.error(`[OUTBOX] Worker tick failed:`, error.message);
+  } finally {
+    processing = false;
+  }
+  return counts;
+}
+
+/** Admin replay of a DEAD entry: reset its attempts and push it again now */
+export async function replayOutboxEntry(id: number): Promise<QuoteOutboxEntry | undefined> {
+  const entry = await storage.requeueDeadOutboxEntry(id);
+  if (!entry) return undefined;
+
+  const quote = await storage.getQuoteById(entry.quoteId);
+  if (quote) {
+    await storage.recordQuoteStatus(quote, "PENDING", { source: "admin" });
+  }
+  return (await dispatchQuote(entry.quoteId)) ?? entry;
+}
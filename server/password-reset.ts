@@ -0,0 +1,45 @@
+import { storage } from "./storage";
+import { emailService, portalLink } from "./email";
+import { createOneTimeToken } from "./passwords";
+import { SlidingWindowLimiter, clientIp } from "./throttle";
+
+/**
+ * Self-service password reset. A request emails a single-use link (token hashed at rest,
+ * PASSWORD_RESET_TTL_MINUTES to live) if the email belongs to an active account; the caller
+ * always gets the same answer, so the endpoint can't be used to discover accounts.
+ */
+
+export const RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+
+// Per client IP: caps scripted probing. Per email: caps how often one inbox can be mailed.
+export const resetRequestsByIp = new SlidingWindowLimiter({ limit: 5, windowMs: 15 * 60_000 });
+export const resetRequestsByEmail = new SlidingWindowLimiter({ limit: 3, windowMs: 60 * 60_000 });
+export const resetAttemptsByIp = new SlidingWindowLimiter({ limit: 10, windowMs: 15 * 60_000 });
+
+/**
+ * Issue and email a reset link. Runs after the response has been sent, so unknown emails
+ * and real ones take the same time from the caller's point of view; failures are only logged.
+ */
+export async function issuePasswordReset(req: any, email: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user || user.isActive === false) {
+    console.log(`[RESET] Reset requested for unknown or inactive email`);
+    return;
+  }
+
+  const { token, tokenHash } = createOneTimeToken();
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + RESET_TTL_MINUTES * 60_000),
+    requestedIp: clientIp(req),
+  });
+
+  await emailService.sendPasswordReset({
+    email: user.email,
+    name: user.name,
+    resetUrl: portalLink(req, `/auth?reset=${encodeURIComponent(token)}`),
+    expiresInMinutes: RESET_TTL_MINUTES,
+  });
+  console.log(`[RESET] Reset link issued for user ${user.id}`);
+}
@@ -0,0 +1,77 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash, type ScryptOptions } from "crypto";
+
+/**
+ * Password hashing with scrypt (memory-hard, per-user random salt).
+ * Stored as `scrypt:N:r:p:<salt>:<hash>` (base64) so the cost can be raised later and
+ * older hashes upgraded on login. Rows without the prefix are legacy plaintext; a leading
+ * "!" marks an account locked until its password is reset, which never verifies.
+ */
+
+const PREFIX = "scrypt";
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+export const LOCKED_PASSWORD = "!reset-required";
+export const INVITED_PASSWORD = "!invited"; // pending invitees can't log in until they accept
+export const MIN_PASSWORD_LENGTH = 8;
+
+function derive(password: string, salt: Buffer, cost: typeof COST): Promise<Buffer> {
+  const options: ScryptOptions = { N: cost.N, r: cost.r, p: cost.p, maxmem: 128 * cost.N * cost.r * 2 };
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export function isPasswordHash(stored: string | null | undefined): boolean {
+  return !!stored && stored.startsWith(`${PREFIX}:`);
+}
+
+export function isLockedPassword(stored: string | null | undefined): boolean {
+  return !!stored && stored.startsWith("!");
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await derive(password, salt, COST);
+  return [PREFIX, COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join(":");
+}
+
+/**
+ * Check a login attempt against the stored value. needsRehash is set when the stored value
+ * is legacy plaintext or uses an older cost, so the caller can upgrade it after a good login.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string | null | undefined
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!stored || isLockedPassword(stored)) return { valid: false, needsRehash: false };
+
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    const valid = a.length === b.length && timingSafeEqual(a, b);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, N, r, p, salt, hash] = stored.split(":");
+  const cost = { N: Number(N), r: Number(r), p: Number(p) };
+  const expected = Buffer.from(hash, "base64");
+  const key = await derive(password, Buffer.from(salt, "base64"), cost);
+  const valid = key.length === expected.length && timingSafeEqual(key, expected);
+  const outdated = cost.N !== COST.N || cost.r !== COST.r || cost.p !== COST.p;
+  return { valid, needsRehash: valid && outdated };
+}
+
+/**
+ * One-time tokens for emailed links (password reset, invitations). The raw token only goes in
+ * the link; the database keeps its sha256, so a leaked table can't be used to take over accounts.
+ * 32 random bytes don't need a slow hash.
+ */
+export function createOneTimeToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashOneTimeToken(token) };
+}
+
+export function hashOneTimeToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,76 @@
+import type { Product } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Customer price resolution against the product_prices cache.
+ * A customer's Cin7 price tier wins; otherwise DEFAULT_PRICE_TIER, then the
+ * product's DefaultSellPrice (stored under the 'Default' tier by the product sync).
+ */
+
+export const DEFAULT_TIER_NAME = "Default";
+export const DEFAULT_CURRENCY = "ZAR";
+
+export interface ResolvedPrice {
+  price: number;
+  currency: string;
+  priceTier: string;
+}
+
+function fallbackTier(): string {
+  return process.env.DEFAULT_PRICE_TIER || "Wholesale";
+}
+
+/** Price tier for a session user (admins and users without a customer get the default tier) */
+export async function priceTierForUser(user: any): Promise<string> {
+  if (!user?.customerId) return fallbackTier();
+  try {
+    const customer = await storage.getCustomerById(Number(user.customerId));
+    return customer?.priceTier || fallbackTier();
+  } catch (error: any) {
+    console.error(`[PRICING] Failed to load customer ${user.customerId}:`, error.message);
+    return fallbackTier();
+  }
+}
+
+/** Resolve one price per product id for the given tier */
+export async function resolvePrices(productIds: number[], priceTier: string): Promise<Map<number, ResolvedPrice>> {
+  const tiers = Array.from(new Set([priceTier, fallbackTier(), DEFAULT_TIER_NAME]));
+  const rows = await storage.getProductPrices(productIds, tiers);
+  const resolved = new Map<number, ResolvedPrice>();
+
+  for (const productId of productIds) {
+    const forProduct = rows.filter((r) => r.productId === productId);
+    // Case-insensitive so "wholesale" on the customer still matches Cin7's "Wholesale"
+    const match = tiers
+      .map((tier) => forProduct.find((r) => r.priceTier.toLowerCase() === tier.toLowerCase()))
+      .find(Boolean);
+    if (match) {
+      resolved.set(productId, {
+        price: parseFloat(match.price) || 0,
+        currency: match.currency || DEFAULT_CURRENCY,
+        priceTier: match.priceTier,
+      });
+    }
+  }
+
+  return resolved;
+}
+
+export type SkuPrice = Omit<ResolvedPrice, "price"> & { price: number | null; product: Product };
+
+/**
+ * Resolve prices keyed by SKU, for cart lines that only carry a SKU.
+ * A product with no synced price in any of the tiers gets price null, never 0.
+ */
+export async function resolvePricesBySku(skus: string[], priceTier: string): Promise<Map<string, SkuPrice>> {
+  const products = await storage.getProductsBySkus(Array.from(new Set(skus)));
+  const prices = await resolvePrices(products.map((p) => p.id), priceTier);
+  const bySku = new Map<string, SkuPrice>();
+
+  for (const product of products) {
+    const price = prices.get(product.id) ?? { price: null, currency: DEFAULT_CURRENCY, priceTier };
+    bySku.set(product.sku, { ...price, product });
+  }
+
+  return bySku;
+}
@@ -0,0 +1,32 @@
+import type { Cin7SaleSummary } from "./services/cin7";
+
+/**
+ * Portal-facing quote lifecycle, derived from the Cin7 sale a quote was pushed as.
+ * Buyers see NOTAUTHORISED → AUTHORISED → PICKING → PACKED → SHIPPED (or VOIDED).
+ * PENDING covers the gap between checkout and the outbox push reaching Cin7.
+ */
+
+export const QUOTE_STATUS_FLOW = ["PENDING", "NOTAUTHORISED", "AUTHORISED", "PICKING", "PACKED", "SHIPPED"] as const;
+
+// Quotes in these states are no longer polled; FAILED quotes never reached Cin7
+export const TERMINAL_QUOTE_STATUSES = ["SHIPPED", "VOIDED", "FAILED"];
+
+const norm = (value?: string) => (value || "").trim().toUpperCase();
+
+/** Collapse Cin7's overall/order/fulfilment statuses into one portal status */
+export function portalStatusFromSale(sale: Cin7SaleSummary): string {
+  const status = norm(sale.Status);
+  if (status === "VOIDED" || status === "CREDITED") return "VOIDED";
+
+  // Partial fulfilment stays on the earlier stage until every line has moved on
+  if (norm(sale.CombinedShippingStatus) === "SHIPPED" || status === "COMPLETED") return "SHIPPED";
+  if (norm(sale.CombinedPackingStatus) === "PACKED" || status === "PACKED" || status === "SHIPPING") return "PACKED";
+  if (
+    ["PICKED", "PARTIALLY PICKED"].includes(norm(sale.CombinedPickingStatus)) ||
+    ["PICKING", "PICKED", "PACKING"].includes(status)
+  ) {
+    return "PICKING";
+  }
+  if (norm(sale.OrderStatus) === "AUTHORISED") return "AUTHORISED";
+  return "NOTAUTHORISED";
+}
@@ -0,0 +1,88 @@
+import type { RegionWithWarehouses } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Region directory: maps Cin7 warehouse locations to customer-facing regions.
+ * Backed by the regions/region_warehouses tables, cached briefly so the catalog
+ * and availability routes don't hit the DB on every request.
+ */
+
+const CACHE_TTL_MS = 60 * 1000;
+
+// Seeded once at startup so a new database behaves like the old hardcoded grouping
+const DEFAULT_REGIONS = [
+  { code: "JHB", name: "JHB Warehouse", checkoutLocation: "B-VDB", locations: ["B-VDB", "S-POM"] },
+  { code: "CPT", name: "CPT Warehouse", checkoutLocation: "B-CPT", locations: ["B-CPT", "S-CPT"] },
+  { code: "BFN", name: "BFN Warehouse", checkoutLocation: "S-BFN", locations: ["S-BFN"] },
+];
+
+let cached: { regions: RegionWithWarehouses[]; loadedAt: number } | null = null;
+
+/**
+ * Startup bootstrap: seed the defaults the first time the app meets a database. A persisted
+ * marker records that it ran, so regions an admin deletes (even all of them) stay deleted.
+ */
+export async function seedDefaultRegions(): Promise<void> {
+  if (await storage.seedRegionsOnce(DEFAULT_REGIONS)) {
+    console.log(`[REGIONS] Seeded default regions`);
+    invalidateRegionDirectory();
+  }
+}
+
+/** Active regions with their linked warehouses */
+export async function getRegionDirectory(): Promise<RegionWithWarehouses[]> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.regions;
+  }
+
+  const all = await storage.getRegions();
+  const regions = all.filter((r) => r.isActive !== false);
+  cached = { regions, loadedAt: Date.now() };
+  return regions;
+}
+
+/** Drop the cache after admin edits */
+export function invalidateRegionDirectory(): void {
+  cached = null;
+}
+
+/** First region (by sort order) a Cin7 location belongs to */
+export function regionForLocation(
+  regions: RegionWithWarehouses[],
+  locationName: string | undefined | null
+): RegionWithWarehouses | undefined {
+  if (!locationName) return undefined;
+  return regions.find((r) => r.warehouses.some((w) => w.cin7LocationName === locationName));
+}
+
+/** Region matching a region code, region name or one of its Cin7 locations */
+export function findRegion(
+  regions: RegionWithWarehouses[],
+  value: string | undefined | null
+): RegionWithWarehouses | undefined {
+  if (!value) return undefined;
+  const needle = value.trim().toLowerCase();
+  return (
+    regions.find((r) => r.code.toLowerCase() === needle || r.name.toLowerCase() === needle) ??
+    regionForLocation(regions, value.trim())
+  );
+}
+
+/**
+ * Resolve what the client sent (region code, region name or a raw Cin7 location)
+ * to the Cin7 location a quote should be raised against.
+ */
+export function resolveCheckoutLocation(
+  regions: RegionWithWarehouses[],
+  value: string | undefined | null
+): string | null {
+  if (!value) return null;
+  const region = findRegion(regions, value);
+  if (!region) return null;
+
+  // A raw Cin7 location the client picked explicitly is kept as-is
+  if (region.warehouses.some((w) => w.cin7LocationName === value.trim())) {
+    return value.trim();
+  }
+  return region.checkoutLocation || region.warehouses[0]?.cin7LocationName || null;
+}
@@ -1,32 +1,97 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import passport from "passport";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { setupAuth, bootstrapAdmin } from "./auth";
+import { storage, type CartOwner } from "./storage";
+import { verifyPassword, hashPassword, hashOneTimeToken, MIN_PASSWORD_LENGTH } from "./passwords";
+import { issuePasswordReset, resetRequestsByIp, resetRequestsByEmail, resetAttemptsByIp } from "./password-reset";
+import { inviteUser, resendInvitation, inviteAttemptsByIp } from "./invitations";
+import { loginBlocked, recordLoginFailure, unlockAccount } from "./login-guard";
+import { clientIp } from "./throttle";
+import type { CartWithItems, PortalOrder } from "@shared/schema";
 import { cin7Service } from "./services/cin7";
+import { priceTierForUser, resolvePrices, resolvePricesBySku, DEFAULT_CURRENCY } from "./pricing";
+import { computeCartSummary } from "./totals";
+import { planCheckout, parseSplitMode, checkStock, SPLIT_MODES } from "./checkout";
+import { dispatchQuote, replayOutboxEntry } from "./outbox";
+import { getRegionDirectory, invalidateRegionDirectory, regionForLocation, resolveCheckoutLocation } from "./regions";
 
-interface CartItem {
+// Cart line as the client sees it
+interface CartLine {
   sku: string;
   quantity: number;
   warehouse: string;
-  price?: number;
+  price?: number | null; // always set server-side from the customer's price tier; null when the SKU has none
+  currency?: string;
+  priceTier?: string;
+  backorderAccepted?: boolean; // buyer accepted that part of this line may be backordered
 }
 
-interface Cart {
-  items: CartItem[];
-  location?: string | null;
-}
-
-// In-memory cart storage (replace with DB/Redis in production)
-const carts = new Map<string, Cart>();
+// Passport user when present, otherwise the user /api/login stored on the session
+const currentUser = (req: any) => req.user ?? req.session?.user ?? null;
 
 function requireAuth(req: any, res: any, next: any) {
-  if (!req.isAuthenticated || !req.isAuthenticated()) {
+  const user = currentUser(req);
+  if (!user) {
     return res.status(401).json({ message: "Authentication required" });
   }
+  req.user = user;
   next();
 }
 
+// Re-price cart lines from the product_prices cache; client-sent prices are ignored
+async function priceCartItems(items: CartLine[], user: any): Promise<CartLine[]> {
+  if (items.length === 0) return items;
+  const priceTier = await priceTierForUser(user);
+  const prices = await resolvePricesBySku(items.map((i) => i.sku), priceTier);
+  return items.map((item) => {
+    const resolved = prices.get(item.sku);
+    return {
+      ...item,
+      price: resolved?.price ?? null,
+      currency: resolved?.currency ?? DEFAULT_CURRENCY,
+      priceTier: resolved?.priceTier ?? priceTier,
+    };
+  });
+}
+
+// Buyers share their customer account's cart across users and devices
+const cartOwner = (user: any): CartOwner => ({
+  customerId: user?.customerId ? Number(user.customerId) : null,
+  userId: String(user?.id ?? user?.email ?? "anon"),
+});
+
+// Stored cart lines carry the price snapshot taken when the cart was last saved
+const cartLines = (cart: CartWithItems | undefined): CartLine[] =>
+  (cart?.items || []).map((item) => ({
+    sku: item.sku,
+    quantity: item.quantity,
+    warehouse: item.warehouse || "",
+    price: item.unitPrice !== null ? parseFloat(item.unitPrice) : null,
+    currency: item.currency || DEFAULT_CURRENCY,
+    priceTier: item.priceTier || undefined,
+    backorderAccepted: item.backorderAccepted ?? false,
+  }));
+
+const cartResponse = (cart: CartWithItems | undefined) => ({
+  id: cart?.id ?? null,
+  items: cartLines(cart),
+  location: cart?.location ?? null,
+});
+
+// Checkout response stored on the portal order for Idempotency-Key replays
+type StoredCheckoutResponse = { statusCode: number; body: unknown };
+
+// Replay the original checkout response; 409 while the first request with the key is still running
+function replayCheckout(res: any, order: PortalOrder) {
+  const stored = order.checkoutResponse as StoredCheckoutResponse | null;
+  res.set("Idempotent-Replayed", "true");
+  if (!stored) {
+    return res.status(409).json({ message: "A checkout with this Idempotency-Key is still in progress", order_number: order.orderNumber });
+  }
+  return res.status(stored.statusCode).json(stored.body);
+}
+
 const publicUser = (user: any) =>
   user
     ? {
@@ -41,6 +106,7 @@ const publicUser = (user: any) =>
 export function registerRoutes(app: Express): Server {
   // Initialize passport/session
   setupAuth(app);
+  bootstrapAdmin().catch((error) => console.error("[AUTH] Admin bootstrap failed:", error));
 
   // Prevent cached logged-out pages
   app.use((_: any, res: any, next: any) => {
@@ -61,7 +127,8 @@ export function registerRoutes(app: Express): Server {
     return res.json({ authenticated: false });
   });
 
-  // Login (expects { email, password }) - PRODUCTION READY with database fallback
+  // Login (expects { email, password }). Admins and buyers are both `users` rows; the
+  // ADMIN_EMAIL/ADMIN_PASSWORD pair only seeds the first admin at startup (see bootstrapAdmin)
   app.post("/api/login", async (req: any, res: any) => {
     try {
       const { email, password } = req.body;
@@ -70,75 +137,72 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ message: "Email and password are required" });
       }
 
-      // Check admin credentials - PRODUCTION SECURITY: Require environment variables
-      const ADMIN_EMAIL = process.env.ADMIN_EMAIL;
-      const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
-      
-      // SECURITY: No fallback credentials in production - require proper env vars
-      if (!ADMIN_EMAIL || !ADMIN_PASSWORD) {
-        console.error(`[LOGIN] SECURITY: Admin credentials not configured properly`);
-        return res.status(500).json({ 
-          message: "Server configuration error", 
-          error: "Admin authentication not properly configured" 
-        });
+      const dbUser = await storage.getUserByEmail(String(email).toLowerCase());
+
+      // Blocked IPs are refused before the password is even checked
+      const blocked = loginBlocked(req, dbUser);
+      if (blocked?.reason === "ip") {
+        console.warn(`[LOGIN] Refused attempt (ip ${clientIp(req)} blocked)`);
+        res.set("Retry-After", String(Math.ceil(blocked.retryAfterMs / 1000)));
+        return res.status(429).json({ message: "Too many failed login attempts. Please try again later." });
       }
-      
-      console.log(`[LOGIN] Admin email configured: ${!!ADMIN_EMAIL}`);
-      console.log(`[LOGIN] Attempting login for: ${email}`);
-      
-      if (email.toLowerCase() === ADMIN_EMAIL.toLowerCase() && password === ADMIN_PASSWORD) {
-        const user = { 
-          id: "admin-1", 
-          email: ADMIN_EMAIL.toLowerCase(), 
-          role: "admin", 
-          name: "Admin" 
-        };
-        
-        try {
-          // Save user to session with error handling
-          (req.session as any).user = user;
-          console.log(`[LOGIN] Admin session saved successfully`);
-        } catch (sessionError: any) {
-          console.error(`[LOGIN] Session save failed but continuing:`, sessionError.message);
-          // Continue anyway - session might work on subsequent requests
+
+      // A locked account is answered exactly like an unknown email, so lockouts can't be used to
+      // discover accounts; the reason only goes to the server log and the lockout audit trail
+      const locked = blocked?.reason === "account";
+      if (locked) {
+        console.warn(`[LOGIN] Refused attempt for locked user ${dbUser.id} from ${clientIp(req)}`);
+      }
+
+      // Unknown emails still pay for a hash so response times don't reveal which accounts exist
+      const check = dbUser && !locked
+        ? await verifyPassword(password, dbUser.password)
+        : (await hashPassword(password), { valid: false, needsRehash: false });
+
+      if (locked || !dbUser || !check.valid || dbUser.isActive === false) {
+        if (!locked) {
+          console.log(`[LOGIN] Failed attempt${dbUser ? ` for user ${dbUser.id}` : " for unknown email"} from ${clientIp(req)}`);
         }
-        
-        return res.json({ success: true, user: publicUser(user) });
+        await recordLoginFailure(req, locked ? null : dbUser);
+        return res.status(401).json({ message: "Invalid credentials" });
       }
-      
-      // Check database users (client accounts) with error handling
+
+      // Legacy plaintext (or older-cost) rows are upgraded on the first good login
       try {
-        console.log(`[LOGIN] Checking database for user: ${email.toLowerCase()}`);
-        const dbUser = await storage.getUserByEmail(email.toLowerCase());
-        console.log(`[LOGIN] Database user found: ${!!dbUser}`);
-        
-        if (dbUser && dbUser.password === password) {
-          const user = {
-            id: dbUser.id,
-            email: dbUser.email,
-            role: dbUser.role || "user",
-            name: dbUser.name,
-            customerId: dbUser.customerId
-          };
-          
-          try {
-            // Save user to session with error handling
-            (req.session as any).user = user;
-            console.log(`[LOGIN] Database user session saved successfully`);
-          } catch (sessionError: any) {
-            console.error(`[LOGIN] Session save failed but continuing:`, sessionError.message);
-            // Continue anyway - session might work on subsequent requests
-          }
-          
-          return res.json({ success: true, user: publicUser(user) });
+        if (check.needsRehash) {
+          await storage.setUserPassword(dbUser.id, password);
+          console.log(`[LOGIN] Upgraded stored password hash for user ${dbUser.id}`);
         }
-      } catch (dbError: any) {
-        console.error(`[LOGIN] Database error (non-fatal):`, dbError.message);
-        // Continue to credential check - admin login should still work
+        await storage.recordUserLogin(dbUser.id);
+      } catch (hashError: any) {
+        console.error(`[LOGIN] Password upgrade failed (non-fatal):`, hashError.message);
       }
-      
-      console.log(`[LOGIN] Invalid credentials for: ${email}`);
-      return res.status(401).json({ message: "Invalid credentials" });
+
+      const user = {
+        id: dbUser.id,
+        email: dbUser.email,
+        role: dbUser.role || "buyer",
+        name: dbUser.name,
+        customerId: dbUser.customerId
+      };
+
+      try {
+        // Save user to session with error handling
+        (req.session as any).user = user;
+        console.log(`[LOGIN] Session saved for ${user.role} ${user.id}`);
+      } catch (sessionError: any) {
+        console.error(`[LOGIN] Session save failed but continuing:`, sessionError.message);
+        // Continue anyway - session might work on subsequent requests
+      }
+
+      // Logging in from another device: fold any open carts for this customer account together
+      try {
+        await storage.mergeOpenCarts(cartOwner(user));
+      } catch (cartError: any) {
+        console.error(`[LOGIN] Cart merge failed (non-fatal):`, cartError.message);
+      }
+
+      return res.json({ success: true, user: publicUser(user) });
     } catch (error: any) {
       console.error("[LOGIN] Critical error:", error);
       console.error("[LOGIN] Error stack:", error.stack);
@@ -191,16 +255,124 @@ export function registerRoutes(app: Express): Server {
     return res.status(401).json({ message: "Not authenticated" });
   });
 
+  // Forgot password (expects { email }); same reply whether or not the account exists
+  app.post("/api/auth/forgot-password", async (req: any, res) => {
+    const email = String(req.body?.email || "").trim().toLowerCase();
+    if (!email) {
+      return res.status(400).json({ message: "Email is required" });
+    }
+
+    const byIp = resetRequestsByIp.hit(clientIp(req));
+    if (!byIp.allowed) {
+      res.set("Retry-After", String(Math.ceil(byIp.retryAfterMs / 1000)));
+      return res.status(429).json({ message: "Too many reset requests. Please try again later." });
+    }
+
+    res.json({
+      success: true,
+      message: "If an account exists for that email, a password reset link is on its way.",
+    });
+
+    // A capped inbox gets the same answer, just no further emails
+    if (!resetRequestsByEmail.hit(email).allowed) {
+      console.log(`[RESET] Email rate limit reached; not sending another link`);
+      return;
+    }
+    issuePasswordReset(req, email).catch((error) => console.error("[RESET] Failed to issue reset link:", error));
+  });
+
+  // Reset password (expects { token, password }) using the emailed one-time token
+  app.post("/api/auth/reset-password", async (req: any, res) => {
+    try {
+      const { token, password } = req.body || {};
+      if (!token || !password) {
+        return res.status(400).json({ message: "Token and password are required" });
+      }
+      if (String(password).length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const attempt = resetAttemptsByIp.hit(clientIp(req));
+      if (!attempt.allowed) {
+        res.set("Retry-After", String(Math.ceil(attempt.retryAfterMs / 1000)));
+        return res.status(429).json({ message: "Too many attempts. Please try again later." });
+      }
+
+      const user = await storage.resetPasswordWithToken(hashOneTimeToken(String(token)), String(password));
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      console.log(`[RESET] Password reset completed for user ${user.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Invitation details for the accept screen (expects the emailed token)
+  app.get("/api/auth/invitations/:token", async (req: any, res) => {
+    try {
+      const attempt = inviteAttemptsByIp.hit(clientIp(req));
+      if (!attempt.allowed) {
+        res.set("Retry-After", String(Math.ceil(attempt.retryAfterMs / 1000)));
+        return res.status(429).json({ message: "Too many attempts. Please try again later." });
+      }
+
+      const invitation = await storage.getOpenInvitationByToken(hashOneTimeToken(req.params.token));
+      if (!invitation) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      res.json({ email: invitation.email, companyName: invitation.companyName, expiresAt: invitation.expiresAt });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Accept an invitation (expects { token, password }); activates the pending account
+  app.post("/api/auth/accept-invite", async (req: any, res) => {
+    try {
+      const { token, password } = req.body || {};
+      if (!token || !password) {
+        return res.status(400).json({ message: "Token and password are required" });
+      }
+      if (String(password).length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const attempt = inviteAttemptsByIp.hit(clientIp(req));
+      if (!attempt.allowed) {
+        res.set("Retry-After", String(Math.ceil(attempt.retryAfterMs / 1000)));
+        return res.status(429).json({ message: "Too many attempts. Please try again later." });
+      }
+
+      const user = await storage.acceptInvitation(hashOneTimeToken(String(token)), String(password));
+      if (!user) {
+        return res.status(400).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      console.log(`[INVITE] Invitation accepted by user ${user.id}`);
+      res.json({ success: true, email: user.email });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
   // -------------------------
   // Admin Routes (require admin role)
   // -------------------------
   function requireAdmin(req: any, res: any, next: any) {
-    if (!req.isAuthenticated || !req.isAuthenticated()) {
+    const user = currentUser(req);
+    if (!user) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    if (req.user?.role !== 'admin') {
+    if (user.role !== 'admin') {
       return res.status(403).json({ message: "Admin access required" });
     }
+    req.user = user;
     next();
   }
 
@@ -253,17 +425,22 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Admin accounts, never with their password hashes
+  const adminUserView = (user: any) => ({
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: user.isActive,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+  });
+
   // Get all admin users
   app.get("/api/admin/users", requireAdmin, async (req: any, res) => {
     try {
       const users = await storage.getAllAdminUsers();
-      // Return the admin users including the configured ones
-      const adminUsers = [
-        { id: 1, name: "Ronald", email: "ronald@reiviloindustrial.co.za", role: "admin" },
-        { id: 2, name: "Kai", email: "sales2@reiviloindustrial.co.za", role: "admin" },
-        ...(users || [])
-      ];
-      res.json({ users: adminUsers });
+      res.json({ users: users.map(adminUserView) });
     } catch (error) {
       console.error("Error fetching admin users:", error);
       res.status(500).json({ message: "Failed to fetch admin users" });
@@ -275,24 +452,330 @@ export function registerRoutes(app: Express): Server {
     try {
       const { name, email, password } = req.body;
       
-      if (!name || !email || !password) {
-        return res.status(400).json({ message: "Name, email, and password are required" });
+      if (!email || !password) {
+        return res.status(400).json({ message: "Email and password are required" });
+      }
+      if (String(password).length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      if (await storage.getUserByEmail(String(email).toLowerCase())) {
+        return res.status(409).json({ message: "A user with this email already exists" });
       }
 
       const user = await storage.createAdminUser({
         name,
         email,
         password,
-        role: 'admin'
+        createdBy: req.user.id,
       });
 
-      res.json({ success: true, user });
+      res.json({ success: true, user: adminUserView(user) });
     } catch (error) {
       console.error("Error creating admin user:", error);
       res.status(500).json({ message: "Failed to create admin user" });
     }
   });
 
+  // Delete an admin user; the last active admin (and your own account) can't be removed
+  app.delete("/api/admin/users/:id", requireAdmin, async (req: any, res) => {
+    try {
+      if (req.params.id === String(req.user.id)) {
+        return res.status(400).json({ message: "You cannot delete your own admin account" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target || target.role !== "admin") {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+      if (target.isActive !== false && (await storage.countActiveAdmins()) <= 1) {
+        return res.status(400).json({ message: "Cannot delete the last active admin" });
+      }
+
+      await storage.deleteAdminUser(target.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting admin user:", error);
+      res.status(500).json({ message: "Failed to delete admin user" });
+    }
+  });
+
+  // -------------------------
+  // Invitations (buyers set their own password from an emailed link)
+  // -------------------------
+  const invitationView = ({ tokenHash, ...invitation }: any) => ({
+    ...invitation,
+    expired: invitation.status === "PENDING" && new Date(invitation.expiresAt) <= new Date(),
+  });
+
+  app.get("/api/admin/invitations", requireAdmin, async (req: any, res) => {
+    try {
+      const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+      const invitations = await storage.getInvitations(status);
+      res.json({ invitations: invitations.map(invitationView) });
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  // Invite a buyer (expects { email, customerId, name? })
+  app.post("/api/admin/invitations", requireAdmin, async (req: any, res) => {
+    try {
+      const email = String(req.body?.email || "").trim().toLowerCase();
+      const customerId = Number(req.body?.customerId);
+      if (!email || !Number.isInteger(customerId) || customerId <= 0) {
+        return res.status(400).json({ message: "Email and customer are required" });
+      }
+
+      const customer = await storage.getCustomerById(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      if (await storage.getUserByEmail(email)) {
+        const pending = (await storage.getInvitations("PENDING")).find((i) => i.email === email);
+        return res.status(409).json({
+          message: pending
+            ? "This email already has a pending invitation; resend it instead"
+            : "A user with this email already exists",
+        });
+      }
+
+      const { invitation, emailSent } = await inviteUser(req, {
+        email,
+        name: req.body?.name || null,
+        customerId,
+        invitedBy: req.user.id,
+      });
+      res.json({ success: true, emailSent, invitation: invitationView({ ...invitation, companyName: customer.companyName }) });
+    } catch (error) {
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.post("/api/admin/invitations/:id/resend", requireAdmin, async (req: any, res) => {
+    try {
+      const invitation = await storage.getInvitationById(Number(req.params.id));
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const result = await resendInvitation(req, invitation);
+      if (!result) {
+        return res.status(409).json({ message: `Only pending invitations can be resent (this one is ${invitation.status})` });
+      }
+      res.json({ success: true, emailSent: result.emailSent, invitation: invitationView(result.invitation) });
+    } catch (error) {
+      console.error("Error resending invitation:", error);
+      res.status(500).json({ message: "Failed to resend invitation" });
+    }
+  });
+
+  // Revoke a pending invitation; the never-activated user is removed
+  app.delete("/api/admin/invitations/:id", requireAdmin, async (req: any, res) => {
+    try {
+      const invitation = await storage.revokeInvitation(Number(req.params.id));
+      if (!invitation) {
+        return res.status(404).json({ message: "Pending invitation not found" });
+      }
+      console.log(`[INVITE] Invitation ${invitation.id} for ${invitation.email} revoked by ${req.user.email}`);
+      res.json({ success: true, invitation: invitationView(invitation) });
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // -------------------------
+  // Login lockouts
+  // -------------------------
+  app.get("/api/admin/locked-accounts", requireAdmin, async (_req, res) => {
+    try {
+      const [locked, events] = await Promise.all([storage.getLockedUsers(), storage.getAccountLockEvents()]);
+      res.json({
+        accounts: locked.map((u) => ({
+          id: u.id,
+          email: u.email,
+          role: u.role,
+          failedLoginCount: u.failedLoginCount,
+          lockedUntil: u.lockedUntil,
+        })),
+        events,
+      });
+    } catch (error) {
+      console.error("Error fetching locked accounts:", error);
+      res.status(500).json({ message: "Failed to fetch locked accounts" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/unlock", requireAdmin, async (req: any, res) => {
+    try {
+      const user = await unlockAccount(req, req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error unlocking account:", error);
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
+  // -------------------------
+  // Regions (warehouse grouping shown to customers)
+  // -------------------------
+  app.get("/api/admin/regions", requireAdmin, async (_req, res) => {
+    try {
+      const [regions, warehouses] = await Promise.all([
+        storage.getRegions(),
+        storage.getWarehouses(),
+      ]);
+      res.json({ regions, warehouses });
+    } catch (error) {
+      console.error("Error fetching regions:", error);
+      res.status(500).json({ message: "Failed to fetch regions" });
+    }
+  });
+
+  app.post("/api/admin/regions", requireAdmin, async (req: any, res) => {
+    try {
+      const { code, name, checkoutLocation, sortOrder, isActive, warehouseIds } = req.body;
+
+      if (!code || !name) {
+        return res.status(400).json({ message: "Code and name are required" });
+      }
+
+      const region = await storage.createRegion({
+        code: String(code).trim().toUpperCase(),
+        name: String(name).trim(),
+        checkoutLocation: checkoutLocation || null,
+        sortOrder: Number(sortOrder) || 0,
+        isActive: isActive ?? true,
+      });
+      if (Array.isArray(warehouseIds)) {
+        await storage.setRegionWarehouses(region.id, warehouseIds.map(Number).filter(Number.isFinite));
+      }
+      invalidateRegionDirectory();
+
+      res.json({ success: true, region: await storage.getRegionById(region.id) });
+    } catch (error) {
+      console.error("Error creating region:", error);
+      res.status(500).json({ message: "Failed to create region" });
+    }
+  });
+
+  app.patch("/api/admin/regions/:id", requireAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { code, name, checkoutLocation, sortOrder, isActive, warehouseIds } = req.body;
+
+      const updates: Record<string, any> = {};
+      if (code !== undefined) updates.code = String(code).trim().toUpperCase();
+      if (name !== undefined) updates.name = String(name).trim();
+      if (checkoutLocation !== undefined) updates.checkoutLocation = checkoutLocation || null;
+      if (sortOrder !== undefined) updates.sortOrder = Number(sortOrder) || 0;
+      if (isActive !== undefined) updates.isActive = !!isActive;
+
+      if (Object.keys(updates).length > 0) {
+        const updated = await storage.updateRegion(id, updates);
+        if (!updated) {
+          return res.status(404).json({ message: "Region not found" });
+        }
+      }
+      if (Array.isArray(warehouseIds)) {
+        await storage.setRegionWarehouses(id, warehouseIds.map(Number).filter(Number.isFinite));
+      }
+      invalidateRegionDirectory();
+
+      const region = await storage.getRegionById(id);
+      if (!region) {
+        return res.status(404).json({ message: "Region not found" });
+      }
+      res.json({ success: true, region });
+    } catch (error) {
+      console.error("Error updating region:", error);
+      res.status(500).json({ message: "Failed to update region" });
+    }
+  });
+
+  app.delete("/api/admin/regions/:id", requireAdmin, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteRegion(parseInt(req.params.id, 10));
+      if (!deleted) {
+        return res.status(404).json({ message: "Region not found" });
+      }
+      invalidateRegionDirectory();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting region:", error);
+      res.status(500).json({ message: "Failed to delete region" });
+    }
+  });
+
+  // -------------------------
+  // Shipping rules (customer > region > global)
+  // -------------------------
+  const shippingRuleFields = (body: any) => {
+    const updates: Record<string, any> = {};
+    if (body.name !== undefined) updates.name = String(body.name).trim();
+    if (body.customerId !== undefined) updates.customerId = body.customerId ? Number(body.customerId) : null;
+    if (body.regionId !== undefined) updates.regionId = body.regionId ? Number(body.regionId) : null;
+    if (body.flatRate !== undefined) updates.flatRate = String(Number(body.flatRate) || 0);
+    if (body.freeAbove !== undefined) updates.freeAbove = body.freeAbove === null || body.freeAbove === "" ? null : String(Number(body.freeAbove));
+    if (body.isActive !== undefined) updates.isActive = !!body.isActive;
+    return updates;
+  };
+
+  app.get("/api/admin/shipping-rules", requireAdmin, async (_req, res) => {
+    try {
+      const rules = await storage.getShippingRules();
+      res.json({ rules });
+    } catch (error) {
+      console.error("Error fetching shipping rules:", error);
+      res.status(500).json({ message: "Failed to fetch shipping rules" });
+    }
+  });
+
+  app.post("/api/admin/shipping-rules", requireAdmin, async (req: any, res) => {
+    try {
+      if (!req.body?.name) {
+        return res.status(400).json({ message: "Name is required" });
+      }
+      const rule = await storage.createShippingRule(shippingRuleFields(req.body));
+      res.json({ success: true, rule });
+    } catch (error) {
+      console.error("Error creating shipping rule:", error);
+      res.status(500).json({ message: "Failed to create shipping rule" });
+    }
+  });
+
+  app.patch("/api/admin/shipping-rules/:id", requireAdmin, async (req: any, res) => {
+    try {
+      const rule = await storage.updateShippingRule(parseInt(req.params.id, 10), shippingRuleFields(req.body));
+      if (!rule) {
+        return res.status(404).json({ message: "Shipping rule not found" });
+      }
+      res.json({ success: true, rule });
+    } catch (error) {
+      console.error("Error updating shipping rule:", error);
+      res.status(500).json({ message: "Failed to update shipping rule" });
+    }
+  });
+
+  app.delete("/api/admin/shipping-rules/:id", requireAdmin, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteShippingRule(parseInt(req.params.id, 10));
+      if (!deleted) {
+        return res.status(404).json({ message: "Shipping rule not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting shipping rule:", error);
+      res.status(500).json({ message: "Failed to delete shipping rule" });
+    }
+  });
+
   // -------------------------
   // Health & Monitoring
   // -------------------------
@@ -325,7 +808,7 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/sync/availability", requireSyncToken, async (_req, res) => {
     try {
       const { ProductSyncService } = await import('./sync');
-      const result = await ProductSyncService.syncAvailability();
+      const result = await ProductSyncService.syncAvailability({ trigger: 'token' });
       res.json(result);
     } catch (error: any) {
       console.error("Availability sync error:", error);
@@ -341,7 +824,7 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/sync/products", requireSyncToken, async (_req, res) => {
     try {
       const { ProductSyncService } = await import('./sync');
-      const result = await ProductSyncService.syncProducts();
+      const result = await ProductSyncService.syncProducts({ trigger: 'token' });
       res.json(result);
     } catch (error: any) {
       console.error("Products sync error:", error);
@@ -357,7 +840,7 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/sync/customers", requireSyncToken, async (_req, res) => {
     try {
       const { ProductSyncService } = await import('./sync');
-      const result = await ProductSyncService.syncCustomers();
+      const result = await ProductSyncService.syncCustomers({ trigger: 'token' });
       res.json(result);
     } catch (error: any) {
       console.error("Customers sync error:", error);
@@ -369,11 +852,27 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Refresh open quote statuses from Cin7 sales
+  app.post("/api/sync/quotes", requireSyncToken, async (_req, res) => {
+    try {
+      const { ProductSyncService } = await import('./sync');
+      const result = await ProductSyncService.syncQuoteStatuses({ trigger: 'token' });
+      res.json(result);
+    } catch (error: any) {
+      console.error("Quote status sync error:", error);
+      res.status(500).json({ 
+        success: false, 
+        message: "Sync failed", 
+        error: error.message 
+      });
+    }
+  });
+
   // Full system sync (nightly)
   app.post("/api/sync/full", requireSyncToken, async (_req, res) => {
     try {
       const { ProductSyncService } = await import('./sync');
-      const result = await ProductSyncService.fullSync();
+      const result = await ProductSyncService.fullSync('token');
       res.json(result);
     } catch (error: any) {
       console.error("Full sync error:", error);
@@ -398,6 +897,8 @@ export function registerRoutes(app: Express): Server {
         isRunning: syncScheduler.isSchedulerRunning(),
         health: syncScheduler.getHealthStatus(),
         stats: syncScheduler.getStats(),
+        cin7RateLimit: cin7Service.getRateLimitMetrics(),
+        cin7Circuit: cin7Service.getCircuitMetrics(),
         timestamp: new Date().toISOString()
       };
       
@@ -412,7 +913,7 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/scheduler/trigger/:type", requireAdmin, async (req: any, res) => {
     try {
       const { type } = req.params;
-      const allowedTypes = ['customers', 'products', 'availability', 'all'];
+      const allowedTypes = ['customers', 'products', 'availability', 'quotes', 'all'];
       
       if (!allowedTypes.includes(type)) {
         return res.status(400).json({ 
@@ -438,6 +939,97 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Persisted sync run history (survives restarts, unlike scheduler stats)
+  app.get("/api/admin/sync/runs", requireAdmin, async (req: any, res) => {
+    try {
+      const page = parseInt((req.query.page as string) || "1", 10) || 1;
+      const pageSize = Math.min(parseInt((req.query.pageSize as string) || "50", 10) || 50, 200);
+      const syncType = (req.query.type as string) || undefined;
+      const status = (req.query.status as string) || undefined;
+
+      const { runs, total } = await storage.getSyncRuns({ syncType, status }, page, pageSize);
+      res.json({ runs, total, page, pageSize });
+    } catch (error: any) {
+      console.error("Error fetching sync runs:", error);
+      res.status(500).json({ message: "Failed to fetch sync runs" });
+    }
+  });
+
+  // Remaining Cin7 call budget and queued requests per priority
+  app.get("/api/admin/cin7/rate-limit", requireAdmin, (_req, res) => {
+    res.json(cin7Service.getRateLimitMetrics());
+  });
+
+  app.get("/api/admin/cin7/circuit", requireAdmin, (_req, res) => {
+    res.json(cin7Service.getCircuitMetrics());
+  });
+
+  // Which endpoint each discovered Cin7 resource resolved to
+  app.get("/api/admin/cin7/endpoints", requireAdmin, (_req, res) => {
+    res.json({ endpoints: cin7Service.getEndpointDiagnostics() });
+  });
+
+  app.post("/api/admin/cin7/endpoints/reset", requireAdmin, (_req, res) => {
+    cin7Service.resetEndpoints();
+    res.json({ success: true, endpoints: cin7Service.getEndpointDiagnostics() });
+  });
+
+  // Cin7 records that failed schema validation (never upserted; dismiss once fixed upstream)
+  app.get("/api/admin/cin7/quarantine", requireAdmin, async (req: any, res) => {
+    try {
+      const page = parseInt((req.query.page as string) || "1", 10) || 1;
+      const pageSize = Math.min(parseInt((req.query.pageSize as string) || "50", 10) || 50, 200);
+      const entity = ((req.query.entity as string) || "").toLowerCase() || undefined;
+
+      const { entries, total } = await storage.getQuarantinedRecords({ entity }, page, pageSize);
+      res.json({ entries, total, page, pageSize });
+    } catch (error: any) {
+      console.error("Error fetching quarantined Cin7 records:", error);
+      res.status(500).json({ message: "Failed to fetch quarantined records" });
+    }
+  });
+
+  app.delete("/api/admin/cin7/quarantine/:id", requireAdmin, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteQuarantinedRecord(parseInt(req.params.id, 10));
+      if (!deleted) {
+        return res.status(404).json({ message: "Quarantined record not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error dismissing quarantined Cin7 record:", error);
+      res.status(500).json({ message: "Failed to dismiss quarantined record" });
+    }
+  });
+
+  // Cin7 quote outbox (DEAD entries need an admin replay)
+  app.get("/api/admin/outbox", requireAdmin, async (req: any, res) => {
+    try {
+      const page = parseInt((req.query.page as string) || "1", 10) || 1;
+      const pageSize = Math.min(parseInt((req.query.pageSize as string) || "50", 10) || 50, 200);
+      const status = ((req.query.status as string) || "").toUpperCase() || undefined;
+
+      const { entries, total } = await storage.getOutboxEntries({ status }, page, pageSize);
+      res.json({ entries, total, page, pageSize });
+    } catch (error: any) {
+      console.error("Error fetching outbox:", error);
+      res.status(500).json({ message: "Failed to fetch outbox" });
+    }
+  });
+
+  app.post("/api/admin/outbox/:id/replay", requireAdmin, async (req: any, res) => {
+    try {
+      const entry = await replayOutboxEntry(parseInt(req.params.id, 10));
+      if (!entry) {
+        return res.status(404).json({ message: "Dead outbox entry not found" });
+      }
+      res.json({ success: true, entry });
+    } catch (error: any) {
+      console.error("Error replaying outbox entry:", error);
+      res.status(500).json({ message: "Failed to replay outbox entry" });
+    }
+  });
+
   // Scheduler health check
   app.get("/api/scheduler/health", requireAdmin, async (_req, res) => {
     try {
@@ -472,16 +1064,12 @@ export function registerRoutes(app: Express): Server {
   // -------------------------
   app.get("/api/warehouses", async (_req, res) => {
     try {
-      // Support either getWarehouses() or getLocations()
-      const raw = (await (cin7Service as any).getWarehouses?.()) ??
-                  (await (cin7Service as any).getLocations?.()) ??
-                  [];
-
-      const out = (raw || []).map((w: any) => ({
-        // Be defensive about field names coming from Cin7
-        id: w.Id ?? w.ID ?? w.id ?? w.LocationId ?? null,
-        name: w.Name ?? w.LocationName ?? w.name ?? "Unknown",
-        isDefault: !!(w.IsDefault ?? w.isDefault),
+      // Field-name variants are normalised (and bad rows quarantined) by the location schema
+      const locations = await cin7Service.getWarehouses();
+      const out = locations.map((w) => ({
+        id: w.ID ?? null,
+        name: w.Name,
+        isDefault: w.IsDefault,
       }));
 
       res.json(out);
@@ -510,13 +1098,43 @@ export function registerRoutes(app: Express): Server {
       ]);
 
       // storage.getProducts returns { products: [...], total: number }
-      const items = (result as any)?.products || [];
+      const products = (result as any)?.products || [];
       const total = (result as any)?.total || 0;
 
-      console.log(`[PRODUCTS] Returning ${items.length} products, total: ${total}`);
+      // Attach cached per-warehouse stock for WarehouseStockDisplay, plus per-region totals
+      const productIds = products.map((p: any) => p.id);
+      const priceTier = await priceTierForUser(currentUser(req));
+      const { ProductSyncService } = await import('./sync');
+      const [stock, regions, prices, cache] = await Promise.all([
+        storage.getAvailabilityByProductIds(productIds),
+        getRegionDirectory(),
+        resolvePrices(productIds, priceTier),
+        ProductSyncService.cacheStatus(),
+      ]);
+      const items = products.map((p: any) => {
+        const rows = stock.filter((a) => a.productId === p.id);
+        const resolved = prices.get(p.id);
+        return {
+          ...p,
+          price: resolved?.price ?? null,
+          currency: resolved?.currency ?? DEFAULT_CURRENCY,
+          priceTier: resolved?.priceTier ?? priceTier,
+          availability: rows,
+          regions: regions.map((r) => {
+            const inRegion = rows.filter((a) => regionForLocation(regions, a.warehouse.cin7LocationName)?.id === r.id);
+            const sum = (field: "available" | "onHand" | "onOrder") =>
+              inRegion.reduce((total, a) => total + (parseFloat(a[field] || "0") || 0), 0);
+            return { code: r.code, name: r.name, available: sum("available"), onHand: sum("onHand"), onOrder: sum("onOrder") };
+          }),
+        };
+      });
+
+      console.log(`[PRODUCTS] Returning ${items.length} products, total: ${total}${cache.stale ? ' (stale)' : ''}`);
       res.json({
         items,
         total,
+        stale: cache.stale, // Cin7 circuit open: stock is as of lastSyncedAt
+        lastSyncedAt: cache.lastSyncedAt,
       });
     } catch (error) {
       console.error("Error fetching products:", error);
@@ -560,50 +1178,134 @@ export function registerRoutes(app: Express): Server {
   });
 
   // -------------------------
-  // Cart (requires auth) – in-memory for now
+  // Cart (requires auth) – persisted per customer account
   // -------------------------
-  app.get("/api/cart", requireAuth, (req: any, res) => {
+  app.get("/api/cart", requireAuth, async (req: any, res) => {
     try {
-      const uid = String(req.user?.id ?? req.user?.email ?? "anon");
-      const cart = carts.get(uid) || { items: [], location: null };
-      res.json(cart);
+      const cart = await storage.getOpenCart(cartOwner(req.user));
+      res.json(cartResponse(cart));
     } catch (error) {
       console.error("Error fetching cart:", error);
       res.status(500).json({ message: "Failed to fetch cart" });
     }
   });
 
-  app.post("/api/cart", requireAuth, (req: any, res) => {
+  app.post("/api/cart", requireAuth, async (req: any, res) => {
     try {
-      const uid = String(req.user?.id ?? req.user?.email ?? "anon");
       const { items, location } = req.body;
 
-      const cart: Cart = {
-        items: Array.isArray(items) ? items : [],
-        location: location ?? null,
-      };
+      const lines = (Array.isArray(items) ? items : [])
+        .filter((item: any) => item?.sku && Number(item.quantity) > 0)
+        .map((item: any) => ({
+          sku: String(item.sku),
+          quantity: Math.floor(Number(item.quantity)),
+          warehouse: item.warehouse ? String(item.warehouse) : "",
+          backorderAccepted: item.backorderAccepted === true,
+        }));
+      const priced = await priceCartItems(lines, req.user);
 
-      carts.set(uid, cart);
-      res.json(cart);
+      const cart = await storage.getOrCreateOpenCart(cartOwner(req.user));
+      const saved = await storage.replaceCartItems(
+        cart.id,
+        priced.map((item) => ({
+          sku: item.sku,
+          quantity: item.quantity,
+          warehouse: item.warehouse || null,
+          unitPrice: item.price !== null && item.price !== undefined ? String(item.price) : null,
+          currency: item.currency,
+          priceTier: item.priceTier,
+          backorderAccepted: item.backorderAccepted,
+        })),
+        location !== undefined ? location ?? null : undefined
+      );
+      res.json(cartResponse(saved));
     } catch (error) {
       console.error("Error updating cart:", error);
       res.status(500).json({ message: "Failed to update cart" });
     }
   });
 
+  // Totals for the current cart (subtotal, VAT, shipping) – same numbers used at checkout
+  app.get("/api/cart/summary", requireAuth, async (req: any, res) => {
+    try {
+      const user = req.user!;
+      const cart = await storage.getOpenCart(cartOwner(user));
+      const customer = user.customerId ? await storage.getCustomerById(user.customerId) : null;
+      const split = parseSplitMode(req.query.split);
+
+      if (!split || split === "none") {
+        const summary = await computeCartSummary(cartLines(cart), { customer, location: cart?.location });
+        return res.json(summary);
+      }
+
+      // Split preview: combined totals plus one summary per quote that checkout would raise
+      const plan = await planCheckout(cartLines(cart), { cartLocation: cart?.location ?? null, split, customer });
+      res.json({
+        ...plan.summary,
+        groups: plan.groups.map((g) => ({ location: g.location, lines: g.items.length, summary: g.summary })),
+      });
+    } catch (error) {
+      console.error("Error computing cart summary:", error);
+      res.status(500).json({ message: "Failed to compute cart summary" });
+    }
+  });
+
+  // Per-line stock check against cached availability – the same check checkout enforces
+  app.get("/api/cart/stock", requireAuth, async (req: any, res) => {
+    try {
+      const split = parseSplitMode(req.query.split);
+      if (!split) {
+        return res.status(400).json({ message: `Invalid split mode. Must be one of: ${SPLIT_MODES.join(", ")}` });
+      }
+      const cart = await storage.getOpenCart(cartOwner(req.user));
+      const lines = await checkStock(cartLines(cart), cart?.location ?? null, split);
+      res.json({
+        lines,
+        ok: lines.every((l) => l.status === "available" || l.backorderAccepted),
+      });
+    } catch (error) {
+      console.error("Error checking cart stock:", error);
+      res.status(500).json({ message: "Failed to check stock" });
+    }
+  });
+
   // -------------------------
-  // Checkout (requires auth) – creates an UNAUTHORISED quote in Cin7
+  // Checkout (requires auth) – creates UNAUTHORISED quotes in Cin7, one per depot when split
   // -------------------------
   app.post("/api/cart/checkout", requireAuth, async (req: any, res) => {
+    // Set once the portal order exists, so a later failure can be stored for replays
+    let placedOrder: PortalOrder | null = null;
     try {
       const user = req.user!;
       const uid = String(user?.id ?? user?.email ?? "anon");
-      const cart = carts.get(uid);
 
-      if (!cart || !cart.items || cart.items.length === 0) {
+      const split = parseSplitMode(req.body?.split);
+      if (!split) {
+        return res.status(400).json({ message: `Invalid split mode. Must be one of: ${SPLIT_MODES.join(", ")}` });
+      }
+
+      // A repeated key (double-click, network retry) gets the first response back instead of a second Sale
+      const idempotencyKey = req.get("Idempotency-Key")?.trim() || null;
+      if (idempotencyKey && idempotencyKey.length > 255) {
+        return res.status(400).json({ message: "Idempotency-Key must be at most 255 characters" });
+      }
+      if (idempotencyKey) {
+        const previous = await storage.getPortalOrderByIdempotencyKey(uid, idempotencyKey);
+        if (previous) return replayCheckout(res, previous);
+      }
+
+      // Prices are resolved again now; the snapshot saved with the cart may be stale
+      const storedCart = await storage.getOpenCart(cartOwner(user));
+      const cart = { items: await priceCartItems(cartLines(storedCart), user), location: storedCart?.location ?? null };
+
+      if (!storedCart || cart.items.length === 0) {
         return res.status(400).json({ message: "Cart is empty" });
       }
-      if (!cart.location) {
+      const unpriced = cart.items.filter((item) => item.price === null || item.price === undefined).map((item) => item.sku);
+      if (unpriced.length > 0) {
+        return res.status(400).json({ message: `No price is available for ${unpriced.join(", ")}. Remove these lines or contact us.`, skus: unpriced });
+      }
+      if (!cart.location && split === "none") {
         return res.status(400).json({ message: "Location is required for checkout" });
       }
 
@@ -616,67 +1318,200 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Customer profile required for checkout" });
       }
 
-      // Build payload for Cin7
-      const quotePayload = {
-        Customer: customer.erpCustomerId || customer.companyName || "",
-        CustomerID: customer.erpCustomerId || "",
-        PriceTier: customer.priceTier || "Wholesale",
-        Location: cart.location,
-        OrderStatus: "NOTAUTHORISED",
-        Lines: cart.items.map((item) => ({
-          SKU: item.sku,
-          Quantity: item.quantity,
-          Price: item.price || 0,
-          TaxRule: "Default",
-        })),
-      };
+      // Lines carry the prices resolved above from the customer's price tier
+      const plan = await planCheckout(cart.items, { cartLocation: cart.location, split, customer });
+      if (plan.unresolved.length > 0) {
+        return res.status(400).json({ message: `Unknown checkout location: ${plan.unresolved.join(", ")}` });
+      }
 
-      try {
-        // Create in Cin7
-        const cin7Response = await cin7Service.createQuote(quotePayload);
-
-        // Save locally
-        const quote = await storage.createQuote({
-          erpSaleId: (cin7Response as any).ID || (cin7Response as any).SaleID,
-          status: "NOTAUTHORISED",
-          payload: JSON.stringify({
-            cin7_response: cin7Response,
-            original_cart: cart,
-            user_id: uid,
-            customer_id: customer.id,
-          }),
+      // Shortfalls must be settled first: accept a backorder, switch depot or reduce the quantity
+      const stock = await checkStock(cart.items, cart.location, split);
+      if (stock.some((l) => l.status !== "available" && !l.backorderAccepted)) {
+        return res.status(409).json({
+          message: "Some lines are not fully in stock at the selected depot",
+          lines: stock,
         });
+      }
+      const stockByItem = new Map(cart.items.map((item, index) => [item, stock[index]]));
 
-        // Clear cart on success
-        carts.delete(uid);
+      const orderReference = req.body?.orderReference ? String(req.body.orderReference).trim() : null;
+      const products = await storage.getProductsBySkus(cart.items.map((item) => item.sku));
 
-        res.json({
-          success: true,
-          quote_id: quote.id,
-          erp_sale_id: (cin7Response as any).ID || (cin7Response as any).SaleID,
-          cin7_response: cin7Response,
-        });
-      } catch (cin7Error: any) {
-        console.error("Cin7 API error:", cin7Error);
-
-        const quote = await storage.createQuote({
-          status: "FAILED",
-          payload: JSON.stringify({
-            error: cin7Error?.message,
-            original_cart: cart,
-            user_id: uid,
-            customer_id: customer?.id,
-          }),
-        });
+      // Quotes and their outbox entries are stored together, so the order survives a Cin7 outage
+      let created: Awaited<ReturnType<typeof storage.createPortalOrder>>;
+      try {
+        created = await storage.createPortalOrder(
+          { customerId: customer.id, userId: uid, orderReference, splitMode: split, idempotencyKey },
+          (order) => plan.groups.map((group, index) => {
+            const { location, items, summary } = group;
+            const partOf = plan.groups.length > 1 ? ` (${index + 1} of ${plan.groups.length})` : "";
+            return {
+              quote: {
+                status: "PENDING",
+                customerId: customer.id,
+                userId: uid,
+                location,
+                orderReference,
+                currency: summary.currency,
+                subtotal: String(summary.subtotal),
+                taxRule: summary.taxRule,
+                taxAmount: String(summary.vat),
+                shippingAmount: String(summary.shipping),
+                totalAmount: String(summary.total),
+                payload: JSON.stringify({
+                  original_cart: { ...cart, items },
+                  user_id: uid,
+                  customer_id: customer.id,
+                }),
+              },
+              lines: items.map((item) => ({
+                sku: item.sku,
+                productName: products.find((p) => p.sku === item.sku)?.name ?? null,
+                quantity: item.quantity,
+                unitPrice: String(item.price ?? 0),
+                lineTotal: String(Math.round((item.price ?? 0) * item.quantity * 100) / 100),
+                warehouse: item.warehouse || null,
+                backorderQuantity: stockByItem.get(item)?.shortfall ?? 0,
+              })),
+              // Build payload for Cin7
+              outboxPayload: {
+                Customer: customer.erpCustomerId || customer.companyName || "",
+                CustomerID: customer.erpCustomerId || "",
+                PriceTier: customer.priceTier || "Wholesale",
+                Location: location,
+                OrderStatus: "NOTAUTHORISED",
+                CustomerReference: orderReference || order.orderNumber,
+                Note: `Portal order ${order.orderNumber}${partOf}`,
+                Lines: items.map((item) => {
+                  const shortfall = stockByItem.get(item)?.shortfall ?? 0;
+                  return {
+                    SKU: item.sku,
+                    Quantity: item.quantity,
+                    Price: item.price!,
+                    TaxRule: summary.taxRule,
+                    ...(shortfall > 0
+                      ? { Comment: `BACKORDER accepted by buyer: ${shortfall} of ${item.quantity} not in stock` }
+                      : {}),
+                  };
+                }),
+                AdditionalCharges: summary.shipping > 0
+                  ? [{ Description: "Shipping", Price: summary.shipping, Quantity: 1, TaxRule: summary.taxRule }]
+                  : [],
+              },
+            };
+          })
+        );
+      } catch (createError: any) {
+        // Lost a race with a concurrent request carrying the same key
+        const previous = idempotencyKey && createError?.code === "23505"
+          ? await storage.getPortalOrderByIdempotencyKey(uid, idempotencyKey)
+          : undefined;
+        if (previous) return replayCheckout(res, previous);
+        throw createError;
+      }
+      if (idempotencyKey) placedOrder = created.order;
+      await storage.markCartCheckedOut(storedCart.id);
 
-        res.status(500).json({
-          message: `Quote creation failed: ${cin7Error?.message || "Unknown error"}`,
+      // Try Cin7 straight away; anything that fails stays with the outbox worker, which retries with backoff
+      const results = [];
+      for (const [index, quote] of Array.from(created.quotes.entries())) {
+        let entry;
+        try {
+          entry = await dispatchQuote(quote.id);
+        } catch (dispatchError) {
+          console.error(`Quote ${quote.id} dispatch error:`, dispatchError);
+        }
+        const sent = entry?.status === "SENT";
+        const refreshed = sent ? await storage.getQuoteById(quote.id) : undefined;
+        results.push({
           quote_id: quote.id,
+          location: quote.location,
+          erp_sale_id: refreshed?.erpSaleId ?? null,
+          status: entry?.status === "DEAD" ? "FAILED" : sent ? "NOTAUTHORISED" : "PENDING",
+          summary: plan.groups[index].summary,
         });
       }
+
+      const allSent = results.every((r) => r.status === "NOTAUTHORISED");
+      const response: StoredCheckoutResponse = {
+        statusCode: allSent ? 200 : 202,
+        body: {
+          success: true,
+          order_number: created.order.orderNumber,
+          split,
+          // First quote kept at the top level for single-quote clients
+          quote_id: results[0].quote_id,
+          erp_sale_id: results[0].erp_sale_id,
+          status: allSent ? "NOTAUTHORISED" : results.some((r) => r.status === "FAILED") ? "FAILED" : "PENDING",
+          quotes: results,
+          summary: plan.summary,
+        },
+      };
+      if (idempotencyKey) {
+        await storage.updatePortalOrder(created.order.id, { checkoutResponse: response });
+      }
+      res.status(response.statusCode).json(response.body);
     } catch (error) {
       console.error("Checkout error:", error);
-      res.status(500).json({ message: "Checkout failed" });
+      const response: StoredCheckoutResponse = {
+        statusCode: 500,
+        body: { message: "Checkout failed", ...(placedOrder ? { order_number: placedOrder.orderNumber } : {}) },
+      };
+      // Without a stored response, retries with the same key would get 409 "in progress" forever
+      if (placedOrder) {
+        await storage
+          .updatePortalOrder(placedOrder.id, { checkoutResponse: response })
+          .catch((storeError) => console.error(`Failed to store checkout response for order ${placedOrder!.orderNumber}:`, storeError));
+      }
+      res.status(response.statusCode).json(response.body);
+    }
+  });
+
+  // -------------------------
+  // Quote history (buyers see their customer account's quotes; admins see all)
+  // -------------------------
+  app.get("/api/quotes", requireAuth, async (req: any, res) => {
+    try {
+      const user = req.user!;
+      const page = parseInt((req.query.page as string) || "1", 10) || 1;
+      const pageSize = Math.min(parseInt((req.query.pageSize as string) || "20", 10) || 20, 100);
+      const statuses = ((req.query.status as string) || "")
+        .split(",")
+        .map((s) => s.trim().toUpperCase())
+        .filter(Boolean);
+
+      let customerId: number | undefined;
+      if (user.role === "admin") {
+        customerId = req.query.customerId ? Number(req.query.customerId) : undefined;
+      } else if (user.customerId) {
+        customerId = Number(user.customerId);
+      } else {
+        return res.json({ quotes: [], total: 0, page, pageSize });
+      }
+
+      const { quotes, total } = await storage.getQuotes({ customerId, statuses }, page, pageSize);
+      res.json({ quotes: quotes.map(({ payload: _payload, ...quote }) => quote), total, page, pageSize });
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  app.get("/api/quotes/:id", requireAuth, async (req: any, res) => {
+    try {
+      const user = req.user!;
+      const quote = await storage.getQuoteById(parseInt(req.params.id, 10));
+
+      // 404 rather than 403 so quote ids from other customers aren't confirmed
+      if (!quote || (user.role !== "admin" && (!user.customerId || quote.customerId !== Number(user.customerId)))) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const { payload: _payload, ...detail } = quote;
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching quote:", error);
+      res.status(500).json({ message: "Failed to fetch quote" });
     }
   });
 
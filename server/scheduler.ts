@@ -1,5 +1,8 @@
 import * as cron from 'node-cron';
 import { ProductSyncService } from './sync';
+import { processOutbox } from './outbox';
+import { cin7Service } from './services/cin7';
+import { parseRetryAfter } from './services/rate-limiter';
 
 interface SchedulerStats {
   totalSyncs: number;
@@ -12,7 +15,7 @@ interface SchedulerStats {
 }
 
 interface SyncJobStats extends SchedulerStats {
-  jobType: 'customers' | 'products' | 'availability';
+  jobType: 'customers' | 'products' | 'availability' | 'quotes';
   schedule: string;
   nextRun: string | null;
 }
@@ -20,19 +23,23 @@ interface SyncJobStats extends SchedulerStats {
 export class SyncScheduler {
   private customerSyncTask: cron.ScheduledTask | null = null;
   private productSyncTask: cron.ScheduledTask | null = null;
+  private quoteStatusTask: cron.ScheduledTask | null = null;
+  private outboxTask: cron.ScheduledTask | null = null;
   private isRunning = false;
   
   private stats: {
     customers: SchedulerStats;
     products: SchedulerStats;
     availability: SchedulerStats;
+    quotes: SchedulerStats;
   };
 
   constructor() {
     this.stats = {
       customers: this.createEmptyStats(),
       products: this.createEmptyStats(), 
-      availability: this.createEmptyStats()
+      availability: this.createEmptyStats(),
+      quotes: this.createEmptyStats()
     };
 
     // Handle graceful shutdown
@@ -66,7 +73,7 @@ export class SyncScheduler {
     try {
       // Customer sync: Every 60 minutes
       this.customerSyncTask = cron.schedule('0 */60 * * * *', async () => {
-        await this.executeWithRetry('customers', () => ProductSyncService.syncCustomers());
+        await this.executeWithRetry('customers', () => ProductSyncService.syncCustomers({ trigger: 'cron' }));
       }, {
         timezone: "Africa/Johannesburg"
       });
@@ -74,8 +81,22 @@ export class SyncScheduler {
       // Product sync: Every 10 minutes (includes prices and availability)
       this.productSyncTask = cron.schedule('*/10 * * * *', async () => {
         // Run both product and availability sync together since they're related
-        await this.executeWithRetry('products', () => ProductSyncService.syncProducts());
-        await this.executeWithRetry('availability', () => ProductSyncService.syncAvailability());
+        await this.executeWithRetry('products', () => ProductSyncService.syncProducts({ trigger: 'cron' }));
+        await this.executeWithRetry('availability', () => ProductSyncService.syncAvailability({ trigger: 'cron' }));
+      }, {
+        timezone: "Africa/Johannesburg"
+      });
+
+      // Quote status refresh: Every 15 minutes
+      this.quoteStatusTask = cron.schedule('*/15 * * * *', async () => {
+        await this.executeWithRetry('quotes', () => ProductSyncService.syncQuoteStatuses({ trigger: 'cron' }));
+      }, {
+        timezone: "Africa/Johannesburg"
+      });
+
+      // Quote outbox worker: Every minute (entries carry their own backoff, so no retry wrapper)
+      this.outboxTask = cron.schedule('* * * * *', async () => {
+        await processOutbox();
       }, {
         timezone: "Africa/Johannesburg"
       });
@@ -83,12 +104,16 @@ export class SyncScheduler {
       // Start the scheduled tasks
       this.customerSyncTask.start();
       this.productSyncTask.start();
+      this.quoteStatusTask.start();
+      this.outboxTask.start();
 
       this.isRunning = true;
       
       this.log('✅ Sync scheduler started successfully');
       this.log('📅 Customer sync: Every 60 minutes');
       this.log('📅 Product sync: Every 10 minutes');
+      this.log('📅 Quote status sync: Every 15 minutes');
+      this.log('📅 Quote outbox: Every minute');
       this.log('🌍 Timezone: Africa/Johannesburg');
 
       // Run an initial sync after 30 seconds to populate data
@@ -125,6 +150,16 @@ export class SyncScheduler {
         this.productSyncTask = null;
       }
 
+      if (this.quoteStatusTask) {
+        this.quoteStatusTask.stop();
+        this.quoteStatusTask = null;
+      }
+
+      if (this.outboxTask) {
+        this.outboxTask.stop();
+        this.outboxTask = null;
+      }
+
       this.isRunning = false;
       this.log('✅ Sync scheduler stopped successfully');
 
@@ -210,13 +245,13 @@ export class SyncScheduler {
 
     try {
       // Run them sequentially to avoid overwhelming the API
-      await this.executeWithRetry('customers', () => ProductSyncService.syncCustomers());
+      await this.executeWithRetry('customers', () => ProductSyncService.syncCustomers({ trigger: 'cron' }));
       await this.sleep(5000); // 5 second delay between syncs
       
-      await this.executeWithRetry('products', () => ProductSyncService.syncProducts());
+      await this.executeWithRetry('products', () => ProductSyncService.syncProducts({ trigger: 'cron' }));
       await this.sleep(5000);
       
-      await this.executeWithRetry('availability', () => ProductSyncService.syncAvailability());
+      await this.executeWithRetry('availability', () => ProductSyncService.syncAvailability({ trigger: 'cron' }));
 
       this.log('🎉 Initial sync completed successfully');
     } catch (error: any) {
@@ -244,9 +279,15 @@ export class SyncScheduler {
    */
   private getRateLimitDelay(error: any): number {
     // Check for Retry-After header
-    const retryAfter = error.headers?.['retry-after'] || error.response?.headers?.['retry-after'];
-    if (retryAfter) {
-      return parseInt(retryAfter) * 1000; // Convert to milliseconds
+    const retryAfter = parseRetryAfter(error.headers?.['retry-after'] ?? error.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter;
+    }
+
+    // Otherwise wait out any pause the Cin7 rate limiter is already honouring
+    const { pausedUntil } = cin7Service.getRateLimitMetrics();
+    if (pausedUntil) {
+      return Math.max(0, Date.parse(pausedUntil) - Date.now());
     }
 
     // Default delay for rate limiting (with some jitter)
@@ -292,6 +333,12 @@ export class SyncScheduler {
         jobType: 'availability',
         schedule: 'Every 10 minutes (with products)',
         nextRun: this.productSyncTask ? this.getNextRunTime(this.productSyncTask) : null
+      },
+      quotes: {
+        ...this.stats.quotes,
+        jobType: 'quotes',
+        schedule: 'Every 15 minutes',
+        nextRun: this.quoteStatusTask ? this.getNextRunTime(this.quoteStatusTask) : null
       }
     };
   }
@@ -311,22 +358,25 @@ export class SyncScheduler {
   /**
    * Manual trigger for sync operations (useful for testing/admin)
    */
-  public async triggerSync(type: 'customers' | 'products' | 'availability' | 'all'): Promise<any> {
+  public async triggerSync(type: 'customers' | 'products' | 'availability' | 'quotes' | 'all'): Promise<any> {
     this.log(`🔧 Manual trigger requested: ${type}`);
 
     try {
       switch (type) {
         case 'customers':
-          return await ProductSyncService.syncCustomers();
+          return await ProductSyncService.syncCustomers({ trigger: 'manual' });
         
         case 'products':
-          return await ProductSyncService.syncProducts();
+          return await ProductSyncService.syncProducts({ trigger: 'manual' });
         
         case 'availability':
-          return await ProductSyncService.syncAvailability();
+          return await ProductSyncService.syncAvailability({ trigger: 'manual' });
+        
+        case 'quotes':
+          return await ProductSyncService.syncQuoteStatuses({ trigger: 'manual' });
         
         case 'all':
-          return await ProductSyncService.fullSync();
+          return await ProductSyncService.fullSync('manual');
         
         default:
           throw new Error(`Invalid sync type: ${type}`);
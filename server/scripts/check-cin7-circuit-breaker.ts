@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { CircuitBreaker } from "../services/circuit-breaker";
+
+/**
+ * Offline check of the Cin7 circuit breaker state machine, with small
+ * thresholds and millisecond cooldowns so it runs in well under a second. No network, no database.
+ *
+ *   npm run check:cin7-circuit-breaker
+ */
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function breakerOpensAfterThreshold() {
+  const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 100 });
+  breaker.recordFailure("timeout");
+  breaker.recordFailure("timeout");
+  assert.equal(breaker.allowRequest(), true, "still closed below the threshold");
+
+  breaker.recordFailure("timeout");
+  assert.equal(breaker.metrics().state, "open");
+  assert.equal(breaker.isOpen(), true);
+  assert.equal(breaker.allowRequest(), false, "open circuit fails fast");
+  assert.equal(breaker.metrics().rejectedCalls, 1);
+}
+
+async function breakerLetsOneTrialThroughAfterCooldown() {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 100 });
+  breaker.recordFailure("HTTP 503");
+  breaker.recordFailure("HTTP 503");
+  assert.equal(breaker.allowRequest(), false);
+
+  await sleep(120);
+  assert.equal(breaker.metrics().state, "half-open", "half-open once the cooldown is over");
+  assert.equal(breaker.allowRequest(), true, "the trial call goes out");
+  assert.equal(breaker.allowRequest(), false, "a second call waits for the trial");
+  assert.equal(breaker.isOpen(), true);
+
+  // A failed trial re-opens for a full cooldown; a successful one closes the circuit
+  breaker.recordFailure("HTTP 503");
+  assert.equal(breaker.metrics().state, "open");
+  assert.equal(breaker.metrics().timesOpened, 2);
+  assert.equal(breaker.allowRequest(), false);
+
+  await sleep(120);
+  assert.equal(breaker.allowRequest(), true);
+  breaker.recordSuccess();
+  assert.equal(breaker.metrics().state, "closed");
+  assert.equal(breaker.allowRequest(), true);
+  assert.equal(breaker.allowRequest(), true);
+}
+
+const CHECKS: [string, () => Promise<void>][] = [
+  ["circuit opens after the failure threshold", breakerOpensAfterThreshold],
+  ["circuit goes half-open after the cooldown and lets exactly one trial through", breakerLetsOneTrialThroughAfterCooldown],
+];
+
+async function main() {
+  let failures = 0;
+  for (const [name, check] of CHECKS) {
+    try {
+      await check();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`❌ ${name}: ${error.message}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} of ${CHECKS.length} circuit breaker checks failed`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ All ${CHECKS.length} circuit breaker checks passed`);
+  }
+}
+
+main();
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import { createCin7Mock, loadFixtures } from "../mock/cin7-mock";
+
+/**
+ * Offline integration check: starts the Cin7 mock on an ephemeral port, points Cin7Service at
+ * it through CIN7_BASE_URL and runs the calls sync and checkout make: paging Product and
+ * ProductAvailability, pushing a Sale, and riding out injected 429, 503 and HTML faults.
+ * No network beyond localhost, no database.
+ *
+ *   npm run check:cin7-mock
+ */
+
+const LOCATION = "B-VDB";
+
+async function main() {
+  const fixtures = loadFixtures();
+  const mock = createCin7Mock({
+    config: { latencyMs: [0, 0], rateLimitPerMinute: 0, retryAfterSeconds: 1, faultRates: { "429": 0, "5xx": 0, html: 0 }, failNext: [] },
+  }).listen(0);
+  await new Promise((resolve) => mock.once("listening", resolve));
+  const mockUrl = `http://localhost:${(mock.address() as AddressInfo).port}`;
+
+  // Cin7Service reads these when it is constructed, so set them before importing it
+  process.env.CIN7_BASE_URL = `${mockUrl}/externalapi/v2/`;
+  process.env.CIN7_HTTP_MODE = "live";
+  process.env.CIN7_ACCOUNT_ID ||= "mock-account";
+  process.env.CIN7_APP_KEY ||= "mock-app-key";
+  process.env.CIN7_RATE_LIMIT_PER_MINUTE = "600"; // the real quota would stretch this run to ~10s
+  // The service imports storage for quarantine writes, which the fixtures never reach
+  process.env.DATABASE_URL ||= "postgres://offline@localhost/unused";
+
+  const control = async (path: string, body?: unknown) => {
+    const resp = await fetch(`${mockUrl}/__mock/${path}`, body === undefined
+      ? undefined
+      : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    return resp.json() as Promise<any>;
+  };
+  const lastRequests = async (count: number) =>
+    ((await control("requests")) as any[]).slice(-count).map((r) => `${r.method} ${r.path} ${r.status}`);
+
+  try {
+    const { cin7Service } = await import("../services/cin7");
+
+    const checks: [string, () => Promise<void>][] = [
+      ["pages through Product until a short page", async () => {
+        const skus: string[] = [];
+        const sizes: number[] = [];
+        for (let page = 1; ; page++) {
+          const { data, pagination } = await cin7Service.getProducts({ page, limit: 4 });
+          assert.equal(pagination.rejected, 0, "no product quarantined");
+          skus.push(...data.map((p) => p.SKU));
+          sizes.push(pagination.fetched);
+          if (pagination.fetched < 4) break;
+        }
+        assert.equal(skus.length, fixtures.products.length);
+        assert.equal(new Set(skus).size, skus.length, "no product repeated across pages");
+        assert.deepEqual(sizes, [4, 4, 1]);
+      }],
+
+      ["pages through ProductAvailability for one location", async () => {
+        const expected = fixtures.availability.filter((r) => r.Location === LOCATION).length;
+        let rows = 0;
+        for (let page = 1; ; page++) {
+          const { data, pagination } = await cin7Service.getProductAvailability(LOCATION, page, 5);
+          assert.ok(data.every((r) => r.Location === LOCATION));
+          rows += data.length;
+          if (pagination.fetched < 5) break;
+        }
+        assert.equal(rows, expected);
+      }],
+
+      ["creates a NOTAUTHORISED Sale and reads it back", async () => {
+        const created = await cin7Service.createQuote({
+          Customer: "Mock Customer",
+          Location: LOCATION,
+          CustomerReference: "CHECK-1",
+          Lines: [{ SKU: "RV-A4-80", Quantity: 2, Price: 79 }],
+        } as any);
+        assert.ok(created?.ID, "sale has an ID");
+        const sale = await cin7Service.getSale(created.ID);
+        assert.equal(sale.SaleID, created.ID);
+        assert.equal(sale.OrderStatus, "NOTAUTHORISED");
+      }],
+
+      ["waits out a 429 and retries", async () => {
+        await control("config", { failNext: ["429"] });
+        const { data } = await cin7Service.getProducts({ page: 1, limit: 4 });
+        assert.equal(data.length, 4);
+        assert.deepEqual(await lastRequests(2), ["POST /product 429", "POST /product 200"]);
+        assert.ok(cin7Service.getRateLimitMetrics().throttledResponses >= 1, "limiter paused for Retry-After");
+      }],
+
+      ["retries a 503 on a read", async () => {
+        await control("config", { failNext: ["503"] });
+        const { data } = await cin7Service.getCustomers(1, 100);
+        assert.equal(data.length, fixtures.customers.length);
+        assert.deepEqual(await lastRequests(2), ["POST /Customer 503", "POST /Customer 200"]);
+      }],
+
+      ["does not resend a Sale after a 503", async () => {
+        const salesBefore = (await control("sales")).length;
+        await control("config", { failNext: ["503"] });
+        await assert.rejects(
+          cin7Service.createQuote({ Customer: "Mock Customer", Lines: [{ SKU: "RV-A4-80", Quantity: 1, Price: 79 }] } as any),
+          (error: any) => error.status === 503
+        );
+        assert.deepEqual(await lastRequests(1), ["POST /Sale 503"]);
+        assert.equal((await control("sales")).length, salesBefore, "no sale created");
+      }],
+
+      ["re-discovers the products endpoint after an HTML page", async () => {
+        await control("config", { failNext: ["html"] });
+        const { data } = await cin7Service.getProducts({ page: 1, limit: 4 });
+        assert.equal(data.length, 4);
+        const products = cin7Service.getEndpointDiagnostics().find((d) => d.resource === "products");
+        assert.equal(products?.lastFailure?.reason, "HTML response");
+        assert.ok(products?.endpoint, "an endpoint was resolved again");
+      }],
+    ];
+
+    let failures = 0;
+    for (const [name, check] of checks) {
+      try {
+        await check();
+        console.log(`✅ ${name}`);
+      } catch (error: any) {
+        failures++;
+        console.error(`❌ ${name}: ${error.message}`);
+      }
+    }
+
+    if (failures > 0) {
+      throw new Error(`${failures} of ${checks.length} mock checks failed`);
+    }
+    console.log(`✅ All ${checks.length} mock checks passed`);
+  } finally {
+    mock.close();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Cin7 mock check failed:", error.message);
+  process.exitCode = 1;
+});
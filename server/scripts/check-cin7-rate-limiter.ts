@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { TokenBucketLimiter, type RequestPriority } from "../services/rate-limiter";
+
+/**
+ * Offline check of the Cin7 rate limiter: priorities, and the reserve low-priority (sync) calls
+ * must leave for checkout, and Retry-After pauses. Uses a fast refill so it runs in well under a second.
+ *
+ *   npm run check:cin7-rate-limiter
+ */
+
+// Let already-granted acquire() promises settle before reading the limiter's counters
+const settle = () => new Promise((r) => setImmediate(r));
+
+async function lowPriorityLeavesTheReserve() {
+  // 10 tokens a second, bucket of 5, low-priority calls must leave 2
+  const limiter = new TokenBucketLimiter({ limitPerMinute: 600, burst: 5, lowPriorityReserve: 2 });
+  const done: RequestPriority[] = [];
+  const take = (priority: RequestPriority) => limiter.acquire(priority).then(() => done.push(priority));
+
+  const lows = [take("low"), take("low"), take("low"), take("low")];
+  await settle();
+  assert.deepEqual(limiter.metrics().granted, { high: 0, normal: 0, low: 3 }, "low calls stop at the reserve");
+  assert.equal(limiter.metrics().queued.low, 1);
+  assert.equal(limiter.metrics().tokensAvailable, 2);
+
+  // The reserve is there for checkout: high and normal calls get it straight away, ahead of the queued low
+  await Promise.all([take("high"), take("normal")]);
+  assert.deepEqual(done, ["low", "low", "low", "high", "normal"]);
+  assert.equal(limiter.metrics().queued.low, 1, "the queued low call still waits");
+
+  // Once the bucket has refilled past the reserve the low call goes out
+  await Promise.all(lows);
+  assert.equal(limiter.metrics().granted.low, 4);
+}
+
+async function pauseHoldsEveryPriority() {
+  const limiter = new TokenBucketLimiter({ limitPerMinute: 600, burst: 5, lowPriorityReserve: 2 });
+  limiter.pause(150); // a 429's Retry-After
+  const started = Date.now();
+  await limiter.acquire("high");
+  assert.ok(Date.now() - started >= 140, "even checkout waits out Retry-After");
+  assert.equal(limiter.metrics().throttledResponses, 1);
+}
+
+const CHECKS: [string, () => Promise<void>][] = [
+  ["low-priority calls leave the reserve for higher priorities", lowPriorityLeavesTheReserve],
+  ["a Retry-After pause holds every priority", pauseHoldsEveryPriority],
+];
+
+async function main() {
+  let failures = 0;
+  for (const [name, check] of CHECKS) {
+    try {
+      await check();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`❌ ${name}: ${error.message}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} of ${CHECKS.length} rate limiter checks failed`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ All ${CHECKS.length} rate limiter checks passed`);
+  }
+}
+
+main();
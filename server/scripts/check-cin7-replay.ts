@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import path from "path";
+import type { Server } from "http";
+
+/**
+ * Offline check of getProducts' parsing against the committed, redacted recordings in
+ * server/mock/recordings. Each case is one product shape Cin7 accounts send: a PriceTiers
+ * object, flat PriceTier1..10 fields, and "Sku" instead of "SKU". No network, no database.
+ *
+ * SYNTHETIC: these recordings were captured from the local mock (server/mock/fixtures), not
+ * from a live Cin7 account, so they show the shapes as we understand them, not proven real
+ * payloads. Once an account is available, record the same searches with CIN7_HTTP_MODE=record
+ * and real credentials, replace the files and point CASES at SKUs of each shape.
+ *
+ *   npm run check:cin7-replay
+ *   npm run check:cin7-replay -- --record   # re-record the cases from the local mock's fixtures
+ */
+
+const CASES = [
+  {
+    shape: "PriceTiers object",
+    search: "RV-A4-80",
+    expected: { SKU: "RV-A4-80", DefaultSellPrice: "89.5", PriceTiers: { Wholesale: 79, Retail: 99, Distributor: 72.5 } },
+  },
+  {
+    shape: "PriceTier1..10 fields",
+    search: "RV-ENV-C4",
+    expected: { SKU: "RV-ENV-C4", DefaultSellPrice: "210", PriceTiers: { "Tier 1": 185, "Tier 2": 229 } },
+  },
+  {
+    shape: "Sku instead of SKU",
+    search: "RV-PEN-BLU",
+    expected: { SKU: "RV-PEN-BLU", DefaultSellPrice: "69", PriceTiers: { Wholesale: 61, Retail: 75 } },
+  },
+];
+
+const RECORD_PORT = 4011;
+
+async function main() {
+  const record = process.argv.includes("--record");
+  let mock: Server | undefined;
+
+  // Cin7Service reads its mode and base URL when it is constructed, so set them before importing it
+  process.env.CIN7_HTTP_MODE = record ? "record" : "replay";
+  process.env.CIN7_RECORDINGS_DIR = path.resolve(process.cwd(), "server/mock/recordings");
+  // The service imports storage for quarantine writes, which valid recordings never reach
+  process.env.DATABASE_URL ||= "postgres://offline@localhost/unused";
+
+  if (record) {
+    const { startCin7Mock } = await import("../mock/cin7-mock");
+    mock = startCin7Mock(RECORD_PORT);
+    process.env.CIN7_BASE_URL = `http://localhost:${RECORD_PORT}/externalapi/v2/`;
+  }
+
+  try {
+    const { cin7Service } = await import("../services/cin7");
+    let failures = 0;
+
+    for (const { shape, search, expected } of CASES) {
+      try {
+        const { data, pagination } = await cin7Service.getProducts({ search });
+        assert.equal(pagination.rejected, 0, "no rows quarantined");
+        assert.equal(data.length, 1, "one product returned");
+        const [product] = data;
+        assert.equal(product.SKU, expected.SKU);
+        assert.equal(product.DefaultSellPrice, expected.DefaultSellPrice);
+        assert.deepEqual(product.PriceTiers, expected.PriceTiers);
+        console.log(`✅ ${shape}: ${product.SKU} ${JSON.stringify(product.PriceTiers)}`);
+      } catch (error: any) {
+        failures++;
+        console.error(`❌ ${shape} (${search}): ${error.message}`);
+      }
+    }
+
+    if (failures > 0) {
+      throw new Error(`${failures} of ${CASES.length} product shapes did not parse as expected`);
+    }
+    console.log(`✅ All ${CASES.length} product shapes parsed as expected`);
+  } finally {
+    mock?.close();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Cin7 replay check failed:", error.message);
+  process.exitCode = 1;
+});
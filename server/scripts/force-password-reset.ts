@@ -0,0 +1,38 @@
+import { storage } from "../storage";
+import { pool } from "../db";
+
+/**
+ * One-off: lock every account that still has a plaintext password.
+ * Logging in re-hashes a legacy password automatically, so anything left over belongs to
+ * users who haven't signed in since hashing shipped. Their plaintext is replaced with an
+ * unusable marker and the account is flagged for a password reset.
+ *
+ *   npm run db:force-password-reset -- --dry-run   # list affected accounts only
+ *   npm run db:force-password-reset
+ */
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const legacy = await storage.getUsersWithLegacyPasswords();
+
+  console.log(`🔑 ${legacy.length} account(s) still on plaintext passwords`);
+  for (const user of legacy) {
+    const lastLogin = user.lastLoginAt ? new Date(user.lastLoginAt).toISOString() : "never";
+    console.log(`   - ${user.email} (role: ${user.role}, last login: ${lastLogin})`);
+  }
+
+  if (dryRun) {
+    console.log("Dry run: no accounts changed");
+    return;
+  }
+
+  const locked = await storage.requirePasswordReset(legacy.map((u) => u.id));
+  console.log(`✅ ${locked} account(s) locked pending a password reset`);
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Forced password reset failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
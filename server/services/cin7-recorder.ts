@@ -0,0 +1,196 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { AxiosError, AxiosHeaders, type AxiosInstance, type AxiosResponse, type InternalAxiosRequestConfig } from "axios";
+
+/**
+ * Record/replay for Cin7Service's axios client.
+ * CIN7_HTTP_MODE=record passes calls through to Cin7 and writes each request/response pair to
+ * CIN7_RECORDINGS_DIR with the account ID and app key redacted; CIN7_HTTP_MODE=replay serves
+ * those files back instead of touching the network. Repeated calls to the same request replay
+ * their recorded responses in order (e.g. a 429 then the retry's 200), then repeat the last one.
+ */
+
+export type Cin7HttpMode = "live" | "record" | "replay";
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+interface Recording {
+  key: string;
+  request: { method: string; url: string; params: unknown; body: unknown };
+  responses: RecordedResponse[];
+}
+
+const REDACTED = "[REDACTED]";
+// Only headers the service reads are kept; cookies and tracing headers stay out of the fixtures
+const KEPT_HEADERS = ["content-type", "x-total-count", "retry-after"];
+
+export const DEFAULT_RECORDINGS_DIR = path.resolve(process.cwd(), "server/mock/recordings");
+
+export function httpModeFromEnv(): Cin7HttpMode {
+  const mode = (process.env.CIN7_HTTP_MODE || "live").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== "string") return data ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// Sorted keys so the same request always hashes the same regardless of property order
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as object).sort().map((k) => [k, canonical((value as any)[k])])
+    );
+  }
+  return value;
+}
+
+function describeRequest(config: InternalAxiosRequestConfig): Recording["request"] {
+  return {
+    method: (config.method || "get").toUpperCase(),
+    url: String(config.url || "").replace(/^\/+/, ""),
+    params: canonical(config.params ?? null),
+    body: canonical(parseBody(config.data)),
+  };
+}
+
+function requestKey(request: Recording["request"]): string {
+  return createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 16);
+}
+
+function fileFor(dir: string, request: Recording["request"], key: string): string {
+  const slug = request.url.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "") || "root";
+  return path.join(dir, `${request.method}-${slug}-${key}.json`);
+}
+
+/** Replace every occurrence of the credentials, in keys' values and inside longer strings */
+function redact(value: unknown, secrets: string[]): unknown {
+  if (typeof value === "string") {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, secrets));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, secrets)]));
+  }
+  return value;
+}
+
+function keptHeaders(headers: unknown): Record<string, string> {
+  const source = headers && typeof (headers as any).toJSON === "function" ? (headers as any).toJSON() : headers || {};
+  const kept: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = (source as any)[name];
+    if (value !== undefined && value !== null) kept[name] = String(value);
+  }
+  return kept;
+}
+
+/**
+ * Record mode: a response interceptor (installed before the retry interceptor, so every attempt
+ * is captured once) writes each pair to disk. The first write of a request in this process
+ * replaces any older recording; later ones append.
+ */
+export function installRecorder(client: AxiosInstance, options: { dir: string; secrets: string[] }): void {
+  const secrets = options.secrets.filter((s) => s && s.length >= 4);
+  const written = new Set<string>();
+  fs.mkdirSync(options.dir, { recursive: true });
+
+  const record = (config: InternalAxiosRequestConfig | undefined, response: AxiosResponse | undefined) => {
+    if (!config || !response) return;
+    try {
+      const request = redact(describeRequest(config), secrets) as Recording["request"];
+      const key = requestKey(request);
+      const file = fileFor(options.dir, request, key);
+      const previous: Recording | null = written.has(key) && fs.existsSync(file)
+        ? JSON.parse(fs.readFileSync(file, "utf8"))
+        : null;
+      const recording: Recording = {
+        key,
+        request,
+        responses: [
+          ...(previous?.responses ?? []),
+          {
+            status: response.status,
+            headers: keptHeaders(response.headers),
+            data: redact(response.data, secrets),
+          },
+        ],
+      };
+      fs.writeFileSync(file, JSON.stringify(recording, null, 2) + "\n");
+      written.add(key);
+      console.log(`📼 Recorded ${request.method} ${request.url} -> ${response.status}`);
+    } catch (error: any) {
+      console.error(`❌ Failed to record Cin7 response:`, error.message);
+    }
+  };
+
+  client.interceptors.response.use(
+    (response) => {
+      record(response.config, response);
+      return response;
+    },
+    (error: AxiosError) => {
+      record(error.config, error.response);
+      throw error;
+    }
+  );
+}
+
+/**
+ * Replay mode: swap the transport for one that answers from the recordings directory.
+ * Requests are matched on method, path, params and body (credentials redacted, so recordings
+ * replay under any account). An unrecorded request fails loudly rather than reaching Cin7.
+ */
+export function installReplay(client: AxiosInstance, options: { dir: string; secrets: string[] }): void {
+  const secrets = options.secrets.filter((s) => s && s.length >= 4);
+  const served = new Map<string, number>();
+
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const request = redact(describeRequest(config), secrets) as Recording["request"];
+    const key = requestKey(request);
+    const file = fileFor(options.dir, request, key);
+    if (!fs.existsSync(file)) {
+      throw new AxiosError(
+        `No Cin7 recording for ${request.method} ${request.url} (${path.basename(file)})`,
+        "ERR_NO_RECORDING",
+        config
+      );
+    }
+
+    const recording: Recording = JSON.parse(fs.readFileSync(file, "utf8"));
+    const index = Math.min(served.get(key) ?? 0, recording.responses.length - 1);
+    served.set(key, index + 1);
+    const recorded = recording.responses[index];
+
+    const response: AxiosResponse = {
+      data: recorded.data,
+      status: recorded.status,
+      statusText: String(recorded.status),
+      headers: new AxiosHeaders(recorded.headers),
+      config,
+      request: { replayed: file },
+    };
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+}
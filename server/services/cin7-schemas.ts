@@ -0,0 +1,177 @@
+import { z } from "zod";
+
+/**
+ * Zod schemas for Cin7 Core payloads. Each schema accepts the raw record (including the
+ * field-name variants Cin7 returns across accounts) and outputs the normalised shape the
+ * rest of the server uses; records that fail are quarantined instead of being upserted blank.
+ */
+
+export type Cin7Entity = "product" | "customer" | "availability" | "location";
+
+const text = z.string().trim();
+const requiredText = (field: string) => text.min(1, `${field} is required`);
+const optionalText = z.string().nullish().transform((v) => (v ?? "").trim());
+const timestamp = z.string().nullish().transform((v) => v || undefined);
+
+// Cin7 sends quantities and prices as numbers, or numeric strings on older accounts; "" means unset
+const numeric = (field: string) =>
+  z.preprocess(
+    (v) => (typeof v === "string" && v.trim() === "" ? null : v),
+    z.union([
+      z.number().finite(),
+      text.regex(/^-?\d+(\.\d+)?$/, `${field} must be numeric`).transform(Number),
+    ]).nullish()
+  );
+const quantity = (field: string) => numeric(field).nullish().transform((v) => v ?? 0);
+
+const record = (raw: unknown) => (raw && typeof raw === "object" ? (raw as Record<string, any>) : {});
+
+/**
+ * Dear returns tier prices either as a PriceTiers object ({ "Wholesale": 120 })
+ * or as flat PriceTier1..PriceTier10 fields; normalise both to name -> price.
+ */
+function extractPriceTiers(p: Record<string, any>): Record<string, number> {
+  const tiers: Record<string, number> = {};
+  if (p.PriceTiers && typeof p.PriceTiers === "object") {
+    for (const [name, value] of Object.entries(p.PriceTiers)) {
+      const price = Number(value);
+      if (Number.isFinite(price)) tiers[name] = price;
+    }
+  }
+  for (let i = 1; i <= 10; i++) {
+    const value = p[`PriceTier${i}`];
+    const price = Number(value);
+    if (value !== null && value !== undefined && value !== "" && Number.isFinite(price) && !(`Tier ${i}` in tiers)) {
+      tiers[`Tier ${i}`] = price;
+    }
+  }
+  return tiers;
+}
+
+export const cin7ProductSchema = z.preprocess(
+  (raw) => ({ ...record(raw), SKU: record(raw).SKU ?? record(raw).Sku }),
+  z
+    .object({
+      SKU: requiredText("SKU"),
+      Name: requiredText("Name"),
+      Barcode: optionalText,
+      Brand: optionalText,
+      Category: optionalText,
+      DefaultSellPrice: numeric("DefaultSellPrice"),
+      PriceTiers: z.record(z.union([z.number(), z.string()])).nullish(),
+      ImageURL: optionalText,
+      Image: optionalText,
+      LastModified: timestamp,
+    })
+    .passthrough()
+    .transform((p) => ({
+      SKU: p.SKU,
+      Name: p.Name,
+      Barcode: p.Barcode,
+      Brand: p.Brand,
+      Category: p.Category,
+      DefaultSellPrice: String(p.DefaultSellPrice ?? 0),
+      PriceTiers: extractPriceTiers(p),
+      ImageURL: p.ImageURL || p.Image,
+      LastModified: p.LastModified,
+    }))
+);
+
+export const cin7AvailabilitySchema = z.object({
+  SKU: requiredText("SKU"),
+  Name: optionalText,
+  Location: optionalText, // blank rows fall back to the location that was queried
+  OnHand: quantity("OnHand"),
+  Allocated: quantity("Allocated"),
+  Available: quantity("Available"),
+  OnOrder: quantity("OnOrder"),
+  LastModified: timestamp,
+});
+
+export const cin7CustomerSchema = z
+  .object({
+    ID: optionalText,
+    CustomerCode: optionalText,
+    Name: optionalText,
+    CompanyName: optionalText,
+    PaymentTerms: optionalText,
+    Terms: optionalText,
+    PriceTier: optionalText,
+    CustomerGroup: optionalText,
+    Addresses: z.array(z.any()).nullish(),
+    Address: z.any().optional(),
+    Contacts: z.array(z.any()).nullish(),
+    ContactPerson: optionalText,
+    Email: optionalText,
+    Phone: optionalText,
+    LastModified: timestamp,
+  })
+  .refine((c) => !!(c.CustomerCode || c.ID), { message: "ID or CustomerCode is required", path: ["ID"] })
+  .refine((c) => !!(c.CompanyName || c.Name), { message: "Name or CompanyName is required", path: ["Name"] });
+
+export const cin7LocationSchema = z.preprocess(
+  (raw) => {
+    const r = record(raw);
+    return { ...r, ID: r.ID ?? r.Id ?? r.LocationId, Name: r.Name ?? r.LocationName, IsDefault: r.IsDefault ?? false };
+  },
+  z.object({
+    ID: z.union([text, z.number()]).nullish().transform((v) => (v === null || v === undefined ? undefined : String(v))),
+    Name: requiredText("Name"),
+    IsDefault: z.boolean(),
+  })
+);
+
+export type Cin7Product = z.output<typeof cin7ProductSchema>;
+export type Cin7Availability = z.output<typeof cin7AvailabilitySchema>;
+export type Cin7Customer = z.output<typeof cin7CustomerSchema>;
+export type Cin7Location = z.output<typeof cin7LocationSchema>;
+
+export const CIN7_SCHEMAS = {
+  product: cin7ProductSchema,
+  customer: cin7CustomerSchema,
+  availability: cin7AvailabilitySchema,
+  location: cin7LocationSchema,
+};
+
+export interface RejectedRecord {
+  entity: Cin7Entity;
+  recordKey: string | null; // SKU / ID when the record has one
+  reason: string;
+  payload: unknown;
+}
+
+function recordKey(entity: Cin7Entity, raw: unknown): string | null {
+  const r = record(raw);
+  const key = entity === "product" || entity === "availability"
+    ? r.SKU ?? r.Sku
+    : entity === "customer"
+      ? r.CustomerCode ?? r.ID
+      : r.ID ?? r.Id ?? r.Name ?? r.LocationName;
+  return key === null || key === undefined || key === "" ? null : String(key);
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/** Split a page of raw Cin7 records into parsed records and rejects with their reasons */
+export function parseCin7Records<E extends Cin7Entity>(
+  entity: E,
+  rows: unknown
+): { valid: z.output<(typeof CIN7_SCHEMAS)[E]>[]; rejected: RejectedRecord[] } {
+  const schema = CIN7_SCHEMAS[entity] as z.ZodType<z.output<(typeof CIN7_SCHEMAS)[E]>>;
+  const valid: z.output<(typeof CIN7_SCHEMAS)[E]>[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  for (const raw of Array.isArray(rows) ? rows : []) {
+    const result = schema.safeParse(raw);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      rejected.push({ entity, recordKey: recordKey(entity, raw), reason: describeIssues(result.error), payload: raw });
+    }
+  }
+  return { valid, rejected };
+}
@@ -1,55 +1,76 @@
-import axios, { AxiosInstance, AxiosError } from "axios";
+import axios, { AxiosInstance, AxiosError, AxiosResponse } from "axios";
+import { TokenBucketLimiter, parseRetryAfter, type RequestPriority, type RateLimitMetrics } from "./rate-limiter";
+import {
+  parseCin7Records,
+  type Cin7Entity,
+  type Cin7Product,
+  type Cin7Availability,
+  type Cin7Customer,
+  type Cin7Location,
+} from "./cin7-schemas";
+import { CircuitBreaker, type CircuitMetrics } from "./circuit-breaker";
+import { installRecorder, installReplay, httpModeFromEnv, DEFAULT_RECORDINGS_DIR } from "./cin7-recorder";
+import { storage } from "../storage";
 
-/** Dear Systems (Cin7 Core) client */
-interface Cin7Config {
-  baseURL: string;
-  accountId: string;
-  appKey: string;
+export type { Cin7Product, Cin7Availability, Cin7Customer, Cin7Location };
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Queue position in the shared Cin7 rate limiter ('high' for checkout, 'low' for sync)
+    priority?: RequestPriority;
+  }
 }
 
-interface Cin7Location {
-  ID?: string;
-  Name?: string;
-  LocationName?: string;
+// Cin7 Core allows 60 calls/minute per account; stay under it by default
+const RATE_LIMIT_PER_MINUTE = Number(process.env.CIN7_RATE_LIMIT_PER_MINUTE || 55);
+const RATE_LIMIT_BURST = Number(process.env.CIN7_RATE_LIMIT_BURST || 10);
+const RATE_LIMIT_LOW_PRIORITY_RESERVE = Number(process.env.CIN7_RATE_LIMIT_RESERVE || 3);
+
+// Consecutive timeouts/network errors/5xx before calls fail fast, and how long until a trial call
+const BREAKER_FAILURE_THRESHOLD = Number(process.env.CIN7_BREAKER_FAILURE_THRESHOLD || 5);
+const BREAKER_COOLDOWN_MS = Number(process.env.CIN7_BREAKER_COOLDOWN_SECONDS || 60) * 1000;
+
+// Which of several spellings each resource answers on varies by Cin7 Core account/version;
+// the first that works is cached for ENDPOINT_TTL_MS and re-probed after a 404 or HTML page
+const ENDPOINT_CANDIDATES = {
+  warehouses: ["Ref/Warehouse", "ref/Warehouse", "Warehouse"],
+  products: ["product", "Product", "products", "Products", "me/Product", "productlist"],
+};
+const ENDPOINT_TTL_MS = Number(process.env.CIN7_ENDPOINT_TTL_MINUTES || 360) * 60 * 1000;
+
+type EndpointResource = keyof typeof ENDPOINT_CANDIDATES;
+
+interface ResolvedEndpoint {
+  endpoint: string;
+  resolvedAt: Date;
 }
 
-export interface Cin7Product {
-  SKU: string;
-  Name?: string;
-  Barcode?: string;
-  Brand?: string;
-  Category?: string;
-  DefaultSellPrice?: string;
-  ImageURL?: string;
-  LastModified?: string;
+export interface EndpointDiagnostics {
+  resource: EndpointResource;
+  candidates: string[];
+  endpoint: string | null;
+  resolvedAt: string | null;
+  expiresAt: string | null;
+  discoveries: number;
+  lastFailure: { endpoint: string; reason: string; at: string } | null;
 }
 
-interface Cin7Availability {
-  SKU: string;
-  Name?: string;
-  OnHand?: number;
-  Allocated?: number;
-  Available?: number;
-  OnOrder?: number;
-  LastModified?: string;
+// Cin7 serves its web app's HTML for unknown paths and bad credentials instead of a JSON error
+function isHtml(data: unknown, headers?: any): boolean {
+  const contentType = String(headers?.["content-type"] || "");
+  return contentType.includes("text/html") || (typeof data === "string" && /<!DOCTYPE html|<html/i.test(data));
 }
 
-interface Cin7Customer {
-  ID?: string;
-  CustomerCode?: string;
-  Name?: string;
-  CompanyName?: string;
-  PaymentTerms?: string;
-  Terms?: string;
-  PriceTier?: string;
-  CustomerGroup?: string;
-  Addresses?: any[];
-  Address?: any;
-  Contacts?: any[];
-  ContactPerson?: string;
-  Email?: string;
-  Phone?: string;
-  LastModified?: string;
+// POST Sale creates a new order on every call
+function isSaleCreate(cfg: any): boolean {
+  return String(cfg?.method || "").toLowerCase() === "post" && /^\/?sale$/i.test(String(cfg?.url || ""));
+}
+
+/** Dear Systems (Cin7 Core) client */
+interface Cin7Config {
+  baseURL: string;
+  accountId: string;
+  appKey: string;
 }
 
 interface Cin7SaleLine {
@@ -57,6 +78,14 @@ interface Cin7SaleLine {
   Quantity: number;
   Price?: number;
   TaxRule?: string;
+  Comment?: string;
+}
+
+interface Cin7AdditionalCharge {
+  Description: string;
+  Price: number;
+  Quantity: number;
+  TaxRule?: string;
 }
 
 interface Cin7Sale {
@@ -65,12 +94,48 @@ interface Cin7Sale {
   PriceTier?: string;
   Location?: string;
   OrderStatus?: string; // "NOTAUTHORISED" to create a quote
+  CustomerReference?: string;
+  Note?: string;
   Lines?: Cin7SaleLine[];
+  AdditionalCharges?: Cin7AdditionalCharge[];
+}
+
+// Row shape of GET saleList; getSale() maps a full Sale down to the same fields
+export interface Cin7SaleSummary {
+  SaleID: string;
+  OrderNumber?: string;
+  Status?: string; // overall sale status, e.g. "ORDERED", "PICKING", "VOIDED"
+  OrderStatus?: string; // "NOTAUTHORISED" | "AUTHORISED"
+  CombinedPickingStatus?: string;
+  CombinedPackingStatus?: string;
+  CombinedShippingStatus?: string;
+  CombinedInvoiceStatus?: string;
+  Updated?: string;
+}
+
+export interface Cin7TaxRule {
+  ID?: string;
+  Name: string;
+  TaxPercent: number;
+  IsActive?: boolean;
+  IsTaxForSale?: boolean;
 }
 
 export class Cin7Service {
   private client: AxiosInstance;
   private config: Cin7Config;
+  private limiter = new TokenBucketLimiter({
+    limitPerMinute: RATE_LIMIT_PER_MINUTE,
+    burst: RATE_LIMIT_BURST,
+    lowPriorityReserve: RATE_LIMIT_LOW_PRIORITY_RESERVE,
+  });
+  private breaker = new CircuitBreaker({
+    failureThreshold: BREAKER_FAILURE_THRESHOLD,
+    cooldownMs: BREAKER_COOLDOWN_MS,
+  });
+  private endpoints = new Map<EndpointResource, ResolvedEndpoint>();
+  private discoveries: Record<EndpointResource, number> = { warehouses: 0, products: 0 };
+  private endpointFailures = new Map<EndpointResource, { endpoint: string; reason: string; at: Date }>();
 
   constructor() {
     this.config = {
@@ -98,16 +163,78 @@ export class Cin7Service {
       timeout: 30000,
     });
 
-    // Retry transient failures (1s, 2s, 4s)
+    // CIN7_HTTP_MODE=record captures sanitized fixtures; replay serves them without the network
+    const httpMode = httpModeFromEnv();
+    const recordings = {
+      dir: process.env.CIN7_RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR,
+      secrets: [this.config.accountId, this.config.appKey],
+    };
+    if (httpMode === "record") {
+      console.log(`📼 Cin7 record mode: writing fixtures to ${recordings.dir}`);
+      installRecorder(this.client, recordings);
+    } else if (httpMode === "replay") {
+      console.log(`📼 Cin7 replay mode: serving fixtures from ${recordings.dir}`);
+      installReplay(this.client, recordings);
+    }
+
+    // Every request (retries included) waits for a token from the shared limiter; replays don't spend quota
+    if (httpMode !== "replay") {
+      this.client.interceptors.request.use(async (cfg) => {
+        await this.limiter.acquire(cfg.priority ?? "normal");
+        return cfg;
+      });
+    }
+
+    // Runs before the limiter (request interceptors run last-registered first): fail fast while open
+    this.client.interceptors.request.use((cfg) => {
+      if (!this.breaker.allowRequest()) {
+        const err: any = new Error("circuit open, Cin7 calls are failing fast");
+        err.code = "ERR_CIRCUIT_OPEN";
+        throw err;
+      }
+      return cfg;
+    });
+
+    // Every attempt reports to the breaker; only the server being unreachable or erroring counts
+    this.client.interceptors.response.use(
+      (resp) => {
+        this.breaker.recordSuccess();
+        return resp;
+      },
+      (error: AxiosError) => {
+        if (error.code === "ERR_CIRCUIT_OPEN" || error.code === "ERR_NO_RECORDING") throw error;
+        const status = error.response?.status;
+        if (!status || status >= 500) {
+          this.breaker.recordFailure(status ? `HTTP ${status}` : error.code || error.message);
+        } else {
+          this.breaker.recordSuccess();
+        }
+        throw error;
+      }
+    );
+
+    // Retry transient failures (1s, 2s, 4s); a 429 pauses the limiter for Retry-After instead
     this.client.interceptors.response.use(
       (resp) => resp,
       async (error: AxiosError) => {
         const cfg = error.config as any;
-        if (!cfg) throw this.formatError(error);
+        if (!cfg || this.breaker.isOpen()) throw this.formatError(error);
+        // A 404 means the wrong endpoint and a missing replay fixture won't appear; don't retry either
+        if (error.response?.status === 404 || error.code === "ERR_NO_RECORDING") throw this.formatError(error);
+        // Creating a Sale isn't idempotent: after a timeout or 5xx Cin7 may already have it, so
+        // resending could duplicate the order. Only a 429 (never processed) is safe to repeat.
+        if (isSaleCreate(cfg) && error.response?.status !== 429) throw this.formatError(error);
         cfg.__retryCount = cfg.__retryCount || 0;
         if (cfg.__retryCount >= 3) throw this.formatError(error);
         cfg.__retryCount++;
-        await new Promise((r) => setTimeout(r, Math.pow(2, cfg.__retryCount) * 1000));
+
+        if (error.response?.status === 429) {
+          const retryAfter = parseRetryAfter(error.response.headers?.["retry-after"]) ?? 60 * 1000;
+          console.warn(`⏳ Cin7 rate limit hit, pausing calls for ${Math.round(retryAfter / 1000)}s`);
+          this.limiter.pause(retryAfter);
+        } else {
+          await new Promise((r) => setTimeout(r, Math.pow(2, cfg.__retryCount) * 1000));
+        }
         return this.client(cfg);
       }
     );
@@ -123,12 +250,118 @@ export class Cin7Service {
       const err = new Error(`Cin7 API Error: ${message}`);
       (err as any).status = status;
       (err as any).data = data;
+      (err as any).headers = error.response.headers;
       return err;
     } else if (error.request) {
-      return new Error("Cin7 API Error: No response received");
+      const err = new Error("Cin7 API Error: No response received");
+      (err as any).code = error.code;
+      return err;
     } else {
-      return new Error(`Cin7 API Error: ${error.message}`);
+      const err = new Error(`Cin7 API Error: ${error.message}`);
+      (err as any).code = error.code;
+      return err;
+    }
+  }
+
+  /** Whether Cin7 calls are currently failing fast; callers should serve cached data */
+  isCircuitOpen(): boolean {
+    return this.breaker.isOpen();
+  }
+
+  getCircuitMetrics(): CircuitMetrics {
+    return this.breaker.metrics();
+  }
+
+  /** Remaining call budget and queue depth of the shared rate limiter */
+  getRateLimitMetrics(): RateLimitMetrics {
+    return this.limiter.metrics();
+  }
+
+  /** Resolved endpoint per resource, for the admin diagnostics route */
+  getEndpointDiagnostics(): EndpointDiagnostics[] {
+    return (Object.keys(ENDPOINT_CANDIDATES) as EndpointResource[]).map((resource) => {
+      const resolved = this.endpoints.get(resource);
+      const failure = this.endpointFailures.get(resource);
+      return {
+        resource,
+        candidates: ENDPOINT_CANDIDATES[resource],
+        endpoint: resolved?.endpoint ?? null,
+        resolvedAt: resolved?.resolvedAt.toISOString() ?? null,
+        expiresAt: resolved ? new Date(resolved.resolvedAt.getTime() + ENDPOINT_TTL_MS).toISOString() : null,
+        discoveries: this.discoveries[resource],
+        lastFailure: failure ? { endpoint: failure.endpoint, reason: failure.reason, at: failure.at.toISOString() } : null,
+      };
+    });
+  }
+
+  /** Forget resolved endpoints so the next call re-probes */
+  resetEndpoints(): void {
+    this.endpoints.clear();
+  }
+
+  /**
+   * POST to a resource whose endpoint name is discovered: the cached endpoint while its TTL holds,
+   * otherwise each candidate in turn. 404s and HTML pages mean "not this one"; any other error is
+   * a real failure (auth, validation, outage) and is thrown rather than probing further.
+   */
+  private async postDiscovered(resource: EndpointResource, body: any, priority?: RequestPriority, skip?: string): Promise<AxiosResponse> {
+    const cached = this.endpoints.get(resource);
+    const fresh = cached && Date.now() - cached.resolvedAt.getTime() < ENDPOINT_TTL_MS;
+    const candidates = fresh
+      ? [cached.endpoint]
+      : [...(cached ? [cached.endpoint] : []), ...ENDPOINT_CANDIDATES[resource].filter((e) => e !== cached?.endpoint)]
+          .filter((e) => e !== skip);
+
+    if (!fresh) {
+      this.discoveries[resource]++;
+      console.log(`🔎 Discovering Cin7 ${resource} endpoint...`);
+    }
+
+    for (const endpoint of candidates) {
+      let reason: string;
+      try {
+        const resp = await this.client.post(endpoint, body, { priority });
+        if (!isHtml(resp.data, resp.headers)) {
+          if (!fresh) {
+            console.log(`✅ Cin7 ${resource} endpoint resolved to ${endpoint}`);
+            this.endpoints.set(resource, { endpoint, resolvedAt: new Date() });
+          }
+          return resp;
+        }
+        reason = "HTML response";
+      } catch (error: any) {
+        if (error.status !== 404 && !isHtml(error.data, error.headers)) throw error;
+        reason = error.status === 404 ? "HTTP 404" : "HTML error page";
+      }
+
+      console.log(`❌ Cin7 ${resource} endpoint ${endpoint}: ${reason}`);
+      this.endpointFailures.set(resource, { endpoint, reason, at: new Date() });
+      if (fresh) {
+        // The cached choice stopped working; probe the full list again
+        this.endpoints.delete(resource);
+        return this.postDiscovered(resource, body, priority, endpoint);
+      }
     }
+
+    this.endpoints.delete(resource);
+    throw new Error(`Cin7 API Error: no working ${resource} endpoint (tried ${candidates.join(", ")})`);
+  }
+
+  /**
+   * Parse a page of raw records against the entity's zod schema. Rejects are written to the
+   * quarantine table with the reason; a quarantine write failure never fails the fetch.
+   */
+  private async validate<E extends Cin7Entity>(entity: E, rows: unknown) {
+    const { valid, rejected } = parseCin7Records(entity, rows);
+    if (rejected.length > 0) {
+      console.warn(`⚠️ Quarantining ${rejected.length} invalid Cin7 ${entity} record(s): ${rejected[0].reason}`);
+      try {
+        await storage.quarantineCin7Records(rejected);
+      } catch (error: any) {
+        console.error(`❌ Failed to quarantine Cin7 ${entity} records:`, error.message);
+      }
+    }
+    return valid;
   }
 
   /** Smoke test: should succeed if creds/baseURL are correct */
@@ -159,33 +392,10 @@ export class Cin7Service {
   /** Primary method */
   async getLocations(): Promise<Cin7Location[]> {
     console.log(`🏭 Fetching warehouses from Cin7...`);
-    
-    // Try the most common Cin7 Core endpoints for warehouses
-    const endpoints = ["Ref/Warehouse", "ref/Warehouse", "Warehouse"];
-    
-    for (const endpoint of endpoints) {
-      try {
-        console.log(`🔄 Trying warehouse endpoint: ${endpoint}`);
-        const resp = await this.client.post(endpoint, {
-          Page: 1,
-          Limit: 500,
-        });
-        
-        // Check if we got HTML response
-        if (typeof resp.data === 'string' && resp.data.includes('<!DOCTYPE html>')) {
-          console.log(`❌ ${endpoint} returned HTML - trying next endpoint`);
-          continue;
-        }
-        
-        console.log(`✅ ${endpoint} worked! Found ${(resp.data as any[])?.length || 0} warehouses`);
-        return (resp.data as any[]) || [];
-      } catch (error: any) {
-        console.log(`❌ ${endpoint} failed: ${error.message}`);
-        // Continue to next endpoint
-      }
-    }
-    
-    throw new Error('All warehouse endpoints failed - check Cin7 Core API documentation');
+    const resp = await this.postDiscovered("warehouses", { Page: 1, Limit: 500 });
+    const locations = await this.validate("location", resp.data);
+    console.log(`✅ Found ${locations.length} warehouses`);
+    return locations;
   }
 
   /** Back-compat alias for routes.ts */
@@ -198,18 +408,19 @@ export class Cin7Service {
   /**
    * Products list using correct Cin7 Core POST endpoint
    * Params: Search (optional), Page, Limit
-   * Returns a plain array for your routes.
+   * pagination.fetched is the raw page size (for paging); rejected rows were quarantined.
    */
   async getProducts(options?: {
     search?: string;
     page?: number;
     limit?: number;
-  }): Promise<Cin7Product[]> {
+    modifiedSince?: string;
+  }): Promise<{ data: Cin7Product[]; pagination: any }> {
     const page = options?.page ?? 1;
     const limit = Math.min(options?.limit ?? 50, 500);
     const search = (options?.search || "").trim();
 
-    console.log(`🔍 Fetching products from Cin7 using POST endpoints (trying multiple Cin7 Core formats)`);
+    console.log(`🔍 Fetching products from Cin7 (page ${page})`);
     
     try {
       // Use POST method with request body - this is the correct Cin7 Core format
@@ -221,33 +432,12 @@ export class Cin7Service {
       if (search) {
         requestBody.Search = search;
       }
-      
-      // Try the most common Cin7 Core endpoints for products
-      const endpoints = ["product", "Product", "products", "Products", "me/Product", "productlist"];
-      let resp: any;
-      
-      for (const endpoint of endpoints) {
-        try {
-          console.log(`🔄 Trying product endpoint: ${endpoint}`);
-          resp = await this.client.post(endpoint, requestBody);
-          
-          // Check if we got HTML response
-          if (typeof resp.data === 'string' && resp.data.includes('<!DOCTYPE html>')) {
-            console.log(`❌ ${endpoint} returned HTML - trying next endpoint`);
-            continue;
-          }
-          
-          console.log(`✅ ${endpoint} worked!`);
-          break;
-        } catch (error: any) {
-          console.log(`❌ ${endpoint} failed: ${error.message}`);
-          if (endpoints.indexOf(endpoint) === endpoints.length - 1) {
-            throw error; // Last endpoint, throw the error
-          }
-          // Continue to next endpoint
-        }
+      if (options?.modifiedSince) {
+        requestBody.ModifiedSince = options.modifiedSince;
       }
       
+      const resp: any = await this.postDiscovered("products", requestBody, "low");
+      
       console.log(`✅ Successfully fetched products from Cin7`);
       console.log(`📊 Response type: ${typeof resp.data}, length: ${Array.isArray(resp.data) ? resp.data.length : 'N/A'}`);
       console.log(`🔍 Response headers:`, JSON.stringify(resp.headers || {}, null, 2));
@@ -278,17 +468,11 @@ export class Cin7Service {
 
       console.log(`Processing ${raw.length} products from Cin7`);
       
-      // Map product data from Cin7 API response
-      return raw.map((p: any) => ({
-        SKU: p?.SKU ?? p?.Sku ?? "",
-        Name: p?.Name || p?.SKU,
-        Barcode: p?.Barcode || "",
-        Brand: p?.Brand || "", 
-        Category: p?.Category || "",
-        DefaultSellPrice: p?.DefaultSellPrice || "0",
-        ImageURL: p?.ImageURL || p?.Image || "",
-        LastModified: p?.LastModified,
-      }));
+      const data = await this.validate("product", raw);
+      return {
+        data,
+        pagination: { page, limit, fetched: raw.length, rejected: raw.length - data.length },
+      };
       
     } catch (error: any) {
       console.error(`❌ Failed to fetch products from Cin7:`, error.message);
@@ -314,16 +498,22 @@ export class Cin7Service {
   async getProductAvailability(
     location: string,
     page = 1,
-    limit = 500
+    limit = 500,
+    modifiedSince?: string
   ): Promise<{ data: Cin7Availability[]; pagination: any }> {
-    const body = { Location: location, Page: page, Limit: Math.min(limit, 500) };
-    const resp = await this.client.post("ProductAvailability", body);
+    const body: any = { Location: location, Page: page, Limit: Math.min(limit, 500) };
+    if (modifiedSince) body.ModifiedSince = modifiedSince;
+    const resp = await this.client.post("ProductAvailability", body, { priority: "low" });
+    const raw = Array.isArray(resp.data) ? resp.data : [];
+    const data = await this.validate("availability", raw);
     return {
-      data: (resp.data as any[]) || [],
+      data,
       pagination: {
         page,
         limit,
         total: (resp.headers && (resp.headers as any)["x-total-count"]) || 0,
+        fetched: raw.length,
+        rejected: raw.length - data.length,
       },
     };
   }
@@ -332,29 +522,82 @@ export class Cin7Service {
 
   async getCustomers(
     page = 1,
-    limit = 500
+    limit = 500,
+    modifiedSince?: string
   ): Promise<{ data: Cin7Customer[]; pagination: any }> {
-    const resp = await this.client.post("Customer", {
-      Page: page,
-      Limit: Math.min(limit, 500),
-    });
+    const body: any = { Page: page, Limit: Math.min(limit, 500) };
+    if (modifiedSince) body.ModifiedSince = modifiedSince;
+    const resp = await this.client.post("Customer", body, { priority: "low" });
+    const raw = Array.isArray(resp.data) ? resp.data : [];
+    const data = await this.validate("customer", raw);
     return {
-      data: (resp.data as any[]) || [],
+      data,
       pagination: {
         page,
         limit,
         total: (resp.headers && (resp.headers as any)["x-total-count"]) || 0,
+        fetched: raw.length,
+        rejected: raw.length - data.length,
       },
     };
   }
 
+  // ---------- Tax rules ----------
+
+  async getTaxRules(): Promise<Cin7TaxRule[]> {
+    const resp = await this.client.get("ref/tax", { params: { Page: 1, Limit: 100 } });
+    const raw = (resp.data as any)?.TaxRuleList ?? resp.data;
+    return Array.isArray(raw) ? raw : [];
+  }
+
   // ---------- Quotes (Sale with NOTAUTHORISED) ----------
 
   async createQuote(saleData: Cin7Sale): Promise<any> {
     const payload = { ...saleData, OrderStatus: "NOTAUTHORISED" };
-    const resp = await this.client.post("Sale", payload);
+    const resp = await this.client.post("Sale", payload, { priority: "high" });
     return resp.data;
   }
+
+  // ---------- Sale status ----------
+
+  async getSale(id: string): Promise<Cin7SaleSummary> {
+    const resp = await this.client.get("Sale", { params: { ID: id }, priority: "low" });
+    const sale = resp.data as any;
+    if (!sale || typeof sale !== "object") {
+      throw new Error(`Cin7 API Error: Sale ${id} not found`);
+    }
+    return {
+      SaleID: sale.ID ?? id,
+      OrderNumber: sale.Order?.SaleOrderNumber,
+      Status: sale.Status,
+      OrderStatus: sale.Order?.Status,
+      CombinedPickingStatus: sale.CombinedPickingStatus,
+      CombinedPackingStatus: sale.CombinedPackingStatus,
+      CombinedShippingStatus: sale.CombinedShippingStatus,
+      CombinedInvoiceStatus: sale.CombinedInvoiceStatus,
+      Updated: sale.LastModifiedOn ?? sale.Updated,
+    };
+  }
+
+  async getSales(options?: {
+    page?: number;
+    limit?: number;
+    updatedSince?: string;
+  }): Promise<{ data: Cin7SaleSummary[]; pagination: any }> {
+    const page = options?.page ?? 1;
+    const limit = Math.min(options?.limit ?? 500, 500);
+    const params: any = { Page: page, Limit: limit };
+    if (options?.updatedSince) params.UpdatedSince = options.updatedSince;
+    const resp = await this.client.get("saleList", { params, priority: "low" });
+    return {
+      data: ((resp.data as any)?.SaleList as Cin7SaleSummary[]) || [],
+      pagination: {
+        page,
+        limit,
+        total: (resp.data as any)?.Total || 0,
+      },
+    };
+  }
 }
 
 export const cin7Service = new Cin7Service();
@@ -0,0 +1,100 @@
+/**
+ * Circuit breaker for Cin7 Core calls. After `failureThreshold` consecutive failures
+ * (timeouts, network errors, 5xx) the circuit opens and calls fail fast instead of waiting
+ * out timeouts and retries. After `cooldownMs` one trial call is let through (half-open):
+ * success closes the circuit, failure re-opens it for another cooldown.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface BreakerConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitMetrics {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: string | null;
+  retryAt: string | null; // when the next trial call is allowed
+  lastFailure: string | null;
+  lastFailureAt: string | null;
+  rejectedCalls: number; // calls failed fast while open
+  timesOpened: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private trialInFlight = false;
+  private lastFailure: string | null = null;
+  private lastFailureAt: Date | null = null;
+  private rejectedCalls = 0;
+  private timesOpened = 0;
+
+  constructor(private config: BreakerConfig) {}
+
+  /** Whether a call may go out now; moves an open circuit to half-open once the cooldown is over */
+  allowRequest(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt!.getTime() >= this.config.cooldownMs) {
+      this.state = "half-open";
+      this.trialInFlight = false;
+    }
+    if (this.state === "closed") return true;
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    this.rejectedCalls++;
+    return false;
+  }
+
+  /** True while calls are being failed fast (open, or half-open with the trial call out) */
+  isOpen(): boolean {
+    if (this.state === "open") return Date.now() - this.openedAt!.getTime() < this.config.cooldownMs;
+    return this.state === "half-open" && this.trialInFlight;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      console.log(`🟢 Cin7 circuit closed after ${this.consecutiveFailures} failures`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.lastFailureAt = new Date();
+
+    if (this.state === "half-open" || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== "open") {
+        this.timesOpened++;
+        const cause = this.state === "half-open" ? "trial call failed" : `${this.consecutiveFailures} failures`;
+        console.warn(`🔴 Cin7 circuit open: ${cause} (${reason}); failing fast for ${Math.round(this.config.cooldownMs / 1000)}s`);
+      }
+      this.state = "open";
+      this.openedAt = new Date();
+      this.trialInFlight = false;
+    }
+  }
+
+  metrics(): CircuitMetrics {
+    return {
+      state: this.state === "open" && !this.isOpen() ? "half-open" : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.config.failureThreshold,
+      openedAt: this.openedAt?.toISOString() ?? null,
+      retryAt: this.openedAt ? new Date(this.openedAt.getTime() + this.config.cooldownMs).toISOString() : null,
+      lastFailure: this.lastFailure,
+      lastFailureAt: this.lastFailureAt?.toISOString() ?? null,
+      rejectedCalls: this.rejectedCalls,
+      timesOpened: this.timesOpened,
+    };
+  }
+}
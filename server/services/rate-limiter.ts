@@ -0,0 +1,123 @@
+/**
+ * Token-bucket limiter for Cin7 Core's per-minute API quota.
+ * Every Cin7Service request takes a token; waiting requests are served by priority,
+ * and low-priority (sync) calls leave a reserve so checkout never queues behind a sync burst.
+ */
+
+export type RequestPriority = "high" | "normal" | "low";
+
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+
+interface LimiterConfig {
+  limitPerMinute: number;
+  burst: number; // bucket capacity
+  lowPriorityReserve: number; // tokens low-priority calls must leave in the bucket
+}
+
+export interface RateLimitMetrics {
+  limitPerMinute: number;
+  burst: number;
+  tokensAvailable: number;
+  queued: Record<RequestPriority, number>;
+  granted: Record<RequestPriority, number>;
+  pausedUntil: string | null;
+  throttledResponses: number;
+  lastThrottledAt: string | null;
+}
+
+export class TokenBucketLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private queues: Record<RequestPriority, Array<() => void>> = { high: [], normal: [], low: [] };
+  private granted: Record<RequestPriority, number> = { high: 0, normal: 0, low: 0 };
+  private throttledResponses = 0;
+  private lastThrottledAt: Date | null = null;
+
+  constructor(private config: LimiterConfig) {
+    this.tokens = config.burst;
+  }
+
+  /** Resolves once a token is available for this priority */
+  acquire(priority: RequestPriority = "normal"): Promise<void> {
+    return new Promise((resolve) => {
+      this.queues[priority].push(resolve);
+      this.drain();
+    });
+  }
+
+  /** Stop granting tokens until the server's Retry-After has passed, and empty the bucket */
+  pause(ms: number): void {
+    this.throttledResponses++;
+    this.lastThrottledAt = new Date();
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    this.drain();
+  }
+
+  metrics(): RateLimitMetrics {
+    this.refill();
+    return {
+      limitPerMinute: this.config.limitPerMinute,
+      burst: this.config.burst,
+      tokensAvailable: Math.floor(this.tokens),
+      queued: { high: this.queues.high.length, normal: this.queues.normal.length, low: this.queues.low.length },
+      granted: { ...this.granted },
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      throttledResponses: this.throttledResponses,
+      lastThrottledAt: this.lastThrottledAt?.toISOString() ?? null,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now <= this.lastRefill) return;
+    const perMs = this.config.limitPerMinute / 60000;
+    this.tokens = Math.min(this.config.burst, this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+  }
+
+  private tokensNeeded(priority: RequestPriority): number {
+    return priority === "low" ? 1 + this.config.lowPriorityReserve : 1;
+  }
+
+  private drain(): void {
+    // Re-plan on every call: a new high-priority request may be grantable before the pending wake-up
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.refill();
+
+    while (Date.now() >= this.pausedUntil) {
+      const priority = PRIORITIES.find((p) => this.queues[p].length > 0);
+      if (!priority || this.tokens < this.tokensNeeded(priority)) break;
+      this.tokens -= 1;
+      this.granted[priority]++;
+      this.queues[priority].shift()!();
+    }
+
+    const waiting = PRIORITIES.find((p) => this.queues[p].length > 0);
+    if (!waiting) return;
+
+    // Sleep until the pause lifts or enough tokens have refilled for the head of the queue
+    const perMs = this.config.limitPerMinute / 60000;
+    const refillWait = Math.max(0, (this.tokensNeeded(waiting) - this.tokens) / perMs);
+    const wait = Math.max(this.pausedUntil - Date.now(), refillWait, 10);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.ceil(wait));
+  }
+}
+
+/** Retry-After as milliseconds (delta-seconds or HTTP-date); null if absent or unparseable */
+export function parseRetryAfter(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -1,19 +1,60 @@
-import { users, customers, products, warehouses, availability, quotes, type User, type InsertUser, type Customer, type Product, type Warehouse, type Availability, type Quote } from "@shared/schema";
+import { users, customers, products, productPrices, warehouses, regions, regionWarehouses, bootstrapSteps, availability, carts, cartItems, portalOrders, quotes, quoteLines, quoteStatusEvents, quoteOutbox, shippingRules, syncWatermarks, syncRuns, cin7Quarantine, passwordResetTokens, userInvitations, accountLockEvents, type User, type InsertUser, type Customer, type Product, type ProductPrice, type Warehouse, type Region, type RegionWithWarehouses, type Availability, type Cart, type CartItem, type CartWithItems, type PortalOrder, type Quote, type QuoteLine, type QuoteWithLines, type QuoteWithHistory, type QuoteStatusEvent, type QuoteOutboxEntry, type ShippingRule, type SyncWatermark, type SyncRun, type Cin7QuarantineEntry, type PasswordResetToken, type UserInvitation, type AccountLockEvent } from "@shared/schema";
 import { db } from "./db";
-import { eq, ilike, and, desc, asc, sql } from "drizzle-orm";
+import { eq, ilike, and, desc, asc, sql, inArray, notInArray, isNull, isNotNull, or, lt, lte, getTableColumns } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import MemoryStore from "memorystore";
 import { pool } from "./db";
+import { createHash } from "crypto";
+import { hashPassword, LOCKED_PASSWORD, INVITED_PASSWORD } from "./passwords";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 const PostgresSessionStore = connectPg(session);
 const MemorySessionStore = MemoryStore(session);
 
+// Customer users share one cart per customer account; users without a customer get their own
+export type CartOwner = { customerId: number | null; userId: string };
+
+export type QuoteFilters = { customerId?: number; userId?: string; statuses?: string[] };
+// One quote of a portal order: the quote row, its lines and the Cin7 Sale body for the outbox
+export type QuoteDraft = { quote: Partial<Quote>; lines: Partial<QuoteLine>[]; outboxPayload?: unknown };
+export type QuoteStatusChange = { occurredAt?: Date | null; source?: string; updates?: Partial<Quote> };
+export type CachedAvailabilityRow = { sku: string; name: string | null; location: string; available: string | null; onHand: string | null; onOrder: string | null };
+export type QuarantineRecord = { entity: string; recordKey: string | null; reason: string; payload: unknown };
+export type OutboxListEntry = QuoteOutboxEntry & { companyName: string | null; orderReference: string | null; totalAmount: string | null };
+export type InvitationListEntry = UserInvitation & { companyName: string | null };
+// A default region and the Cin7 locations it groups, seeded into an empty database
+export type RegionSeed = { code: string; name: string; checkoutLocation: string; locations: string[] };
+export type NewInvitation = { email: string; name?: string | null; customerId: number; invitedBy: string | null; tokenHash: string; expiresAt: Date };
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: any): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+  setUserPassword(id: string, password: string): Promise<User | undefined>;
+  recordUserLogin(id: string): Promise<void>;
+  getUsersWithLegacyPasswords(): Promise<User[]>;
+  requirePasswordReset(ids: string[]): Promise<number>;
+  createPasswordResetToken(token: { userId: string; tokenHash: string; expiresAt: Date; requestedIp?: string }): Promise<PasswordResetToken>;
+  resetPasswordWithToken(tokenHash: string, password: string): Promise<User | undefined>;
+
+  // Invitation methods
+  createInvitation(invitation: NewInvitation): Promise<UserInvitation>;
+  getInvitations(status?: string): Promise<InvitationListEntry[]>;
+  getInvitationById(id: number): Promise<UserInvitation | undefined>;
+  getOpenInvitationByToken(tokenHash: string): Promise<InvitationListEntry | undefined>;
+  renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | undefined>;
+  revokeInvitation(id: number): Promise<UserInvitation | undefined>;
+  acceptInvitation(tokenHash: string, password: string): Promise<User | undefined>;
+
+  // Login lockout methods
+  recordFailedLogin(userId: string, lockAfter: number, lockoutMs: number): Promise<User | undefined>;
+  getLockedUsers(): Promise<User[]>;
+  unlockUser(userId: string): Promise<User | undefined>;
+  recordAccountLockEvent(event: Partial<AccountLockEvent>): Promise<AccountLockEvent>;
+  getAccountLockEvents(limit?: number): Promise<AccountLockEvent[]>;
   getAllActiveCustomers(): Promise<Customer[]>;
   getAllCustomers(): Promise<Customer[]>;
   updateCustomer(id: number, updates: Partial<Customer>): Promise<Customer | undefined>;
@@ -25,6 +66,7 @@ export interface IStorage {
   getAllAdminUsers(): Promise<User[]>;
   createAdminUser(user: any): Promise<User>;
   deleteAdminUser(id: string): Promise<boolean>;
+  countActiveAdmins(): Promise<number>;
   
   // Customer methods
   getCustomerById(id: number): Promise<Customer | undefined>;
@@ -35,20 +77,78 @@ export interface IStorage {
   getProducts(search?: string, page?: number, pageSize?: number): Promise<{ products: Product[], total: number }>;
   getProductById(id: number): Promise<Product | undefined>;
   getProductBySku(sku: string): Promise<Product | undefined>;
+  getProductsBySkus(skus: string[]): Promise<Product[]>;
   upsertProduct(product: Partial<Product>): Promise<Product>;
   
+  // Product price methods
+  getProductPrices(productIds: number[], priceTiers?: string[]): Promise<ProductPrice[]>;
+  replaceProductPrices(productId: number, prices: { priceTier: string; price: string; currency?: string }[]): Promise<void>;
+  
   // Warehouse methods
   getWarehouses(): Promise<Warehouse[]>;
   getWarehouseById(id: number): Promise<Warehouse | undefined>;
   upsertWarehouse(warehouse: Partial<Warehouse>): Promise<Warehouse>;
   
+  // Region methods
+  getRegions(): Promise<RegionWithWarehouses[]>;
+  getRegionById(id: number): Promise<RegionWithWarehouses | undefined>;
+  createRegion(region: Partial<Region>): Promise<Region>;
+  seedRegionsOnce(defaults: RegionSeed[]): Promise<boolean>;
+  updateRegion(id: number, updates: Partial<Region>): Promise<Region | undefined>;
+  deleteRegion(id: number): Promise<boolean>;
+  setRegionWarehouses(regionId: number, warehouseIds: number[]): Promise<void>;
+  
   // Availability methods
   getAvailabilityByProductIds(productIds: number[]): Promise<(Availability & { warehouse: Warehouse })[]>;
   upsertAvailability(availability: Partial<Availability>): Promise<Availability>;
+  getCachedAvailability(sku?: string): Promise<CachedAvailabilityRow[]>;
+  
+  // Cart methods
+  getOpenCart(owner: CartOwner): Promise<CartWithItems | undefined>;
+  getOrCreateOpenCart(owner: CartOwner): Promise<CartWithItems>;
+  replaceCartItems(cartId: number, items: Partial<CartItem>[], location?: string | null): Promise<CartWithItems>;
+  markCartCheckedOut(cartId: number): Promise<void>;
+  mergeOpenCarts(owner: CartOwner): Promise<CartWithItems | undefined>;
   
   // Quote methods
-  createQuote(quote: Partial<Quote>): Promise<Quote>;
+  createQuote(quote: Partial<Quote>, lines?: Partial<QuoteLine>[], outboxPayload?: unknown): Promise<Quote>;
+  createPortalOrder(order: Partial<PortalOrder>, buildDrafts: (order: PortalOrder) => QuoteDraft[]): Promise<{ order: PortalOrder; quotes: Quote[] }>;
+  updatePortalOrder(id: number, updates: Partial<PortalOrder>): Promise<PortalOrder | undefined>;
+  getPortalOrderByIdempotencyKey(userId: string, idempotencyKey: string): Promise<PortalOrder | undefined>;
   getQuotesByCustomerId(customerId: number): Promise<Quote[]>;
+  getQuotes(filters?: QuoteFilters, page?: number, pageSize?: number): Promise<{ quotes: QuoteWithHistory[], total: number }>;
+  getQuoteById(id: number): Promise<QuoteWithLines | undefined>;
+  getOpenQuotes(excludeStatuses: string[]): Promise<Quote[]>;
+  recordQuoteStatus(quote: Quote, toStatus: string, change?: QuoteStatusChange): Promise<Quote>;
+  
+  // Quote outbox methods
+  claimOutboxEntryForQuote(quoteId: number): Promise<QuoteOutboxEntry | undefined>;
+  claimDueOutboxEntries(limit: number): Promise<QuoteOutboxEntry[]>;
+  abandonStaleOutboxEntries(staleBefore: Date, lastError: string): Promise<QuoteOutboxEntry[]>;
+  updateOutboxEntry(id: number, updates: Partial<QuoteOutboxEntry>): Promise<QuoteOutboxEntry | undefined>;
+  requeueDeadOutboxEntry(id: number): Promise<QuoteOutboxEntry | undefined>;
+  getOutboxEntries(filters?: { status?: string }, page?: number, pageSize?: number): Promise<{ entries: OutboxListEntry[], total: number }>;
+  
+  // Shipping rule methods
+  getShippingRules(): Promise<ShippingRule[]>;
+  createShippingRule(rule: Partial<ShippingRule>): Promise<ShippingRule>;
+  updateShippingRule(id: number, updates: Partial<ShippingRule>): Promise<ShippingRule | undefined>;
+  deleteShippingRule(id: number): Promise<boolean>;
+  
+  // Sync watermark methods
+  getSyncWatermark(entity: string): Promise<SyncWatermark | undefined>;
+  upsertSyncWatermark(watermark: Partial<SyncWatermark> & { entity: string }): Promise<SyncWatermark>;
+  
+  // Sync run history methods
+  createSyncRun(run: Partial<SyncRun>): Promise<SyncRun>;
+  finishSyncRun(id: number, updates: Partial<SyncRun>): Promise<SyncRun | undefined>;
+  getSyncRuns(filters?: { syncType?: string; status?: string }, page?: number, pageSize?: number): Promise<{ runs: SyncRun[], total: number }>;
+  getLastSuccessfulSync(syncType: string): Promise<Date | null>;
+
+  // Cin7 quarantine methods
+  quarantineCin7Records(records: QuarantineRecord[]): Promise<number>;
+  getQuarantinedRecords(filters?: { entity?: string }, page?: number, pageSize?: number): Promise<{ entries: Cin7QuarantineEntry[], total: number }>;
+  deleteQuarantinedRecord(id: number): Promise<boolean>;
   
   sessionStore: session.Store;
 }
@@ -87,7 +187,7 @@ export class DatabaseStorage implements IStorage {
   async createUser(userData: any): Promise<User> {
     const insertData: any = {
       email: userData.email,
-      password: userData.password,
+      password: await hashPassword(userData.password),
       customerId: userData.customerId || null,
       role: userData.role || 'buyer',
       createdBy: userData.createdBy || null,
@@ -107,6 +207,238 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Always hashes; a new password also lifts any forced reset
+  async setUserPassword(id: string, password: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password: await hashPassword(password), passwordResetRequired: false })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  // A successful login also clears the failed-attempt count and any lockout
+  async recordUserLogin(id: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ lastLoginAt: new Date(), failedLoginCount: 0, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  // Rows still holding a plaintext password (not yet re-hashed by a login, not already locked)
+  async getUsersWithLegacyPasswords(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(sql`${users.password} NOT LIKE 'scrypt:%'`, sql`${users.password} NOT LIKE '!%'`))
+      .orderBy(asc(users.email));
+  }
+
+  // Replace the stored password with an unusable marker so the account must go through a reset
+  async requirePasswordReset(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const updated = await db
+      .update(users)
+      .set({ password: LOCKED_PASSWORD, passwordResetRequired: true })
+      .where(inArray(users.id, ids))
+      .returning({ id: users.id });
+    return updated.length;
+  }
+
+  async createPasswordResetToken(token: { userId: string; tokenHash: string; expiresAt: Date; requestedIp?: string }): Promise<PasswordResetToken> {
+    const [created] = await db
+      .insert(passwordResetTokens)
+      .values({ ...token, requestedIp: token.requestedIp ?? null })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Claim an unused, unexpired token and set the new password in one transaction. The
+   * conditional update makes the token single-use even under concurrent requests; every
+   * other outstanding link for the user is spent as well. The reset also lifts any login lockout,
+   * and is refused for deactivated users. Undefined when the token or the user is no good.
+   */
+  async resetPasswordWithToken(tokenHash: string, password: string): Promise<User | undefined> {
+    const passwordHash = await hashPassword(password);
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          sql`${passwordResetTokens.expiresAt} > now()`
+        ))
+        .returning();
+      if (!claimed) return undefined;
+
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, claimed.userId), isNull(passwordResetTokens.usedAt)));
+
+      const [user] = await tx
+        .update(users)
+        .set({ password: passwordHash, passwordResetRequired: false, failedLoginCount: 0, lockedUntil: null })
+        .where(and(eq(users.id, claimed.userId), sql`${users.isActive} IS NOT FALSE`))
+        .returning();
+      return user || undefined;
+    });
+  }
+
+  // The invitee's user row is created inactive with an unusable password, alongside the invite
+  async createInvitation(invitation: NewInvitation): Promise<UserInvitation> {
+    return await db.transaction(async (tx) => {
+      const inserted: any = await tx
+        .insert(users)
+        .values({
+          email: invitation.email,
+          name: invitation.name || null,
+          password: INVITED_PASSWORD,
+          customerId: invitation.customerId,
+          role: 'buyer',
+          isActive: false,
+          createdBy: invitation.invitedBy,
+        })
+        .returning();
+      const user = inserted[0];
+      const [created] = await tx
+        .insert(userInvitations)
+        .values({
+          userId: user.id,
+          email: invitation.email,
+          customerId: invitation.customerId,
+          tokenHash: invitation.tokenHash,
+          expiresAt: invitation.expiresAt,
+          invitedBy: invitation.invitedBy,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async getInvitations(status?: string): Promise<InvitationListEntry[]> {
+    return await db
+      .select({ ...getTableColumns(userInvitations), companyName: customers.companyName })
+      .from(userInvitations)
+      .leftJoin(customers, eq(userInvitations.customerId, customers.id))
+      .where(status ? eq(userInvitations.status, status) : undefined)
+      .orderBy(desc(userInvitations.createdAt));
+  }
+
+  async getInvitationById(id: number): Promise<UserInvitation | undefined> {
+    const [invitation] = await db.select().from(userInvitations).where(eq(userInvitations.id, id));
+    return invitation;
+  }
+
+  async getOpenInvitationByToken(tokenHash: string): Promise<InvitationListEntry | undefined> {
+    const [invitation] = await db
+      .select({ ...getTableColumns(userInvitations), companyName: customers.companyName })
+      .from(userInvitations)
+      .leftJoin(customers, eq(userInvitations.customerId, customers.id))
+      .where(and(
+        eq(userInvitations.tokenHash, tokenHash),
+        eq(userInvitations.status, "PENDING"),
+        sql`${userInvitations.expiresAt} > now()`
+      ));
+    return invitation;
+  }
+
+  // Resend: a fresh token replaces the old one, so earlier links stop working
+  async renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | undefined> {
+    const [invitation] = await db
+      .update(userInvitations)
+      .set({ tokenHash, expiresAt, lastSentAt: new Date(), sentCount: sql`${userInvitations.sentCount} + 1` })
+      .where(and(eq(userInvitations.id, id), eq(userInvitations.status, "PENDING")))
+      .returning();
+    return invitation;
+  }
+
+  // Revoking removes the never-activated user so the email can be invited again; the invite row stays as a record
+  async revokeInvitation(id: number): Promise<UserInvitation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(userInvitations)
+        .set({ status: "REVOKED", revokedAt: new Date() })
+        .where(and(eq(userInvitations.id, id), eq(userInvitations.status, "PENDING")))
+        .returning();
+      if (invitation?.userId) {
+        await tx.delete(users).where(and(eq(users.id, invitation.userId), eq(users.isActive, false)));
+      }
+      return invitation;
+    });
+  }
+
+  /** Claim a pending, unexpired invite and activate its user with the chosen password */
+  async acceptInvitation(tokenHash: string, password: string): Promise<User | undefined> {
+    const passwordHash = await hashPassword(password);
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(userInvitations)
+        .set({ status: "ACCEPTED", acceptedAt: new Date() })
+        .where(and(
+          eq(userInvitations.tokenHash, tokenHash),
+          eq(userInvitations.status, "PENDING"),
+          sql`${userInvitations.expiresAt} > now()`
+        ))
+        .returning();
+      if (!invitation?.userId) return undefined;
+
+      const [user] = await tx
+        .update(users)
+        .set({ password: passwordHash, isActive: true, passwordResetRequired: false })
+        .where(eq(users.id, invitation.userId))
+        .returning();
+      return user || undefined;
+    });
+  }
+  /**
+   * Count a failed login in one statement (safe across instances) and lock the account for
+   * lockoutMs once it reaches lockAfter consecutive failures. Returns the updated row.
+   */
+  async recordFailedLogin(userId: string, lockAfter: number, lockoutMs: number): Promise<User | undefined> {
+    // A lockout that has run out starts the count again instead of carrying it over
+    const lockExpired = sql`${users.lockedUntil} IS NOT NULL AND ${users.lockedUntil} <= now()`;
+    const failures = sql`CASE WHEN ${lockExpired} THEN 1 ELSE ${users.failedLoginCount} + 1 END`;
+    const [user] = await db
+      .update(users)
+      .set({
+        failedLoginCount: failures,
+        lockedUntil: sql`CASE WHEN ${failures} >= ${lockAfter} THEN now() + ${lockoutMs} * interval '1 millisecond' WHEN ${lockExpired} THEN NULL ELSE ${users.lockedUntil} END`,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async getLockedUsers(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(sql`${users.lockedUntil} > now()`)
+      .orderBy(desc(users.lockedUntil));
+  }
+
+  async unlockUser(userId: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ failedLoginCount: 0, lockedUntil: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async recordAccountLockEvent(event: Partial<AccountLockEvent>): Promise<AccountLockEvent> {
+    const [created] = await db.insert(accountLockEvents).values(event as any).returning();
+    return created;
+  }
+
+  async getAccountLockEvents(limit = 50): Promise<AccountLockEvent[]> {
+    return await db.select().from(accountLockEvents).orderBy(desc(accountLockEvents.createdAt)).limit(limit);
+  }
+
+
   async getAllActiveCustomers(): Promise<Customer[]> {
     return await db.select().from(customers).orderBy(asc(customers.companyName));
   }
@@ -269,6 +601,37 @@ export class DatabaseStorage implements IStorage {
     return product || undefined;
   }
 
+  async getProductsBySkus(skus: string[]): Promise<Product[]> {
+    if (skus.length === 0) return [];
+    return await db.select().from(products).where(inArray(products.sku, skus));
+  }
+
+  async getProductPrices(productIds: number[], priceTiers?: string[]): Promise<ProductPrice[]> {
+    if (productIds.length === 0) return [];
+    return await db
+      .select()
+      .from(productPrices)
+      .where(
+        and(
+          inArray(productPrices.productId, productIds),
+          priceTiers?.length ? inArray(productPrices.priceTier, priceTiers) : undefined
+        )
+      );
+  }
+
+  async replaceProductPrices(productId: number, prices: { priceTier: string; price: string; currency?: string }[]): Promise<void> {
+    await db.delete(productPrices).where(eq(productPrices.productId, productId));
+    if (prices.length === 0) return;
+    await db.insert(productPrices).values(
+      prices.map((p) => ({
+        productId,
+        priceTier: p.priceTier,
+        price: p.price,
+        currency: p.currency || "ZAR",
+      }))
+    );
+  }
+
   async upsertProduct(productData: Partial<Product>): Promise<Product> {
     if (productData.sku) {
       const existing = await this.getProductBySku(productData.sku);
@@ -318,6 +681,89 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getRegions(): Promise<RegionWithWarehouses[]> {
+    const [regionRows, links] = await Promise.all([
+      db.select().from(regions).orderBy(asc(regions.sortOrder), asc(regions.code)),
+      db
+        .select({ regionId: regionWarehouses.regionId, warehouse: warehouses })
+        .from(regionWarehouses)
+        .innerJoin(warehouses, eq(regionWarehouses.warehouseId, warehouses.id)),
+    ]);
+
+    return regionRows.map((region) => ({
+      ...region,
+      warehouses: links.filter((l) => l.regionId === region.id).map((l) => l.warehouse),
+    }));
+  }
+
+  async getRegionById(id: number): Promise<RegionWithWarehouses | undefined> {
+    const all = await this.getRegions();
+    return all.find((r) => r.id === id);
+  }
+
+  async createRegion(regionData: Partial<Region>): Promise<Region> {
+    const [created] = await db
+      .insert(regions)
+      .values(regionData as any)
+      .returning();
+    return created;
+  }
+
+  /**
+   * Seed the default regions once per database. The bootstrap_steps marker is claimed in the
+   * same transaction, so instances booting together can't both seed and regions an admin deletes
+   * later are never recreated. A database that already has regions only gets the marker.
+   */
+  async seedRegionsOnce(defaults: RegionSeed[]): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .insert(bootstrapSteps)
+        .values({ name: "default_regions" })
+        .onConflictDoNothing()
+        .returning();
+      if (claimed.length === 0) return false;
+
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)` }).from(regions);
+      if (Number(count) > 0) return false;
+
+      for (const [index, def] of Array.from(defaults.entries())) {
+        const [region] = await tx
+          .insert(regions)
+          .values({ code: def.code, name: def.name, checkoutLocation: def.checkoutLocation, sortOrder: index })
+          .returning();
+        await tx
+          .insert(warehouses)
+          .values(def.locations.map((cin7LocationName) => ({ cin7LocationName })))
+          .onConflictDoNothing();
+        const linked = await tx.select().from(warehouses).where(inArray(warehouses.cin7LocationName, def.locations));
+        await tx.insert(regionWarehouses).values(linked.map((w) => ({ regionId: region.id, warehouseId: w.id })));
+      }
+      return true;
+    });
+  }
+
+  async updateRegion(id: number, updates: Partial<Region>): Promise<Region | undefined> {
+    const [region] = await db
+      .update(regions)
+      .set(updates)
+      .where(eq(regions.id, id))
+      .returning();
+    return region || undefined;
+  }
+
+  async deleteRegion(id: number): Promise<boolean> {
+    const result = await db.delete(regions).where(eq(regions.id, id)).returning();
+    return Array.isArray(result) && result.length > 0;
+  }
+
+  async setRegionWarehouses(regionId: number, warehouseIds: number[]): Promise<void> {
+    await db.delete(regionWarehouses).where(eq(regionWarehouses.regionId, regionId));
+    if (warehouseIds.length === 0) return;
+    await db
+      .insert(regionWarehouses)
+      .values(Array.from(new Set(warehouseIds)).map((warehouseId) => ({ regionId, warehouseId })));
+  }
+
   async getAvailabilityByProductIds(productIds: number[]): Promise<(Availability & { warehouse: Warehouse })[]> {
     if (productIds.length === 0) return [];
     
@@ -333,7 +779,25 @@ export class DatabaseStorage implements IStorage {
       })
       .from(availability)
       .innerJoin(warehouses, eq(availability.warehouseId, warehouses.id))
-      .where(sql`${availability.productId} = ANY(ARRAY[${productIds.join(',')}])`);
+      .where(inArray(availability.productId, productIds));
+  }
+
+  // Every cached stock row with its SKU and Cin7 location, for serving availability while Cin7 is down
+  async getCachedAvailability(sku?: string): Promise<CachedAvailabilityRow[]> {
+    return await db
+      .select({
+        sku: products.sku,
+        name: products.name,
+        location: warehouses.cin7LocationName,
+        available: availability.available,
+        onHand: availability.onHand,
+        onOrder: availability.onOrder,
+      })
+      .from(availability)
+      .innerJoin(products, eq(availability.productId, products.id))
+      .innerJoin(warehouses, eq(availability.warehouseId, warehouses.id))
+      .where(sku ? eq(products.sku, sku) : undefined)
+      .orderBy(asc(products.sku), asc(warehouses.cin7LocationName));
   }
 
   async upsertAvailability(availabilityData: Partial<Availability>): Promise<Availability> {
@@ -370,17 +834,497 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async createQuote(quoteData: Partial<Quote>): Promise<Quote> {
-    const [quote] = await db
+  private cartOwnerCondition(owner: CartOwner) {
+    return owner.customerId !== null
+      ? eq(carts.customerId, owner.customerId)
+      : and(eq(carts.userId, owner.userId), sql`${carts.customerId} IS NULL`);
+  }
+
+  private async withItems(cart: Cart, conn: typeof db | DbTransaction = db): Promise<CartWithItems> {
+    const items = await conn
+      .select()
+      .from(cartItems)
+      .where(eq(cartItems.cartId, cart.id))
+      .orderBy(asc(cartItems.id));
+    return { ...cart, items };
+  }
+
+  async getOpenCart(owner: CartOwner): Promise<CartWithItems | undefined> {
+    const [cart] = await db
+      .select()
+      .from(carts)
+      .where(and(this.cartOwnerCondition(owner), eq(carts.status, "OPEN")))
+      .orderBy(asc(carts.createdAt))
+      .limit(1);
+    return cart ? this.withItems(cart) : undefined;
+  }
+
+  async getOrCreateOpenCart(owner: CartOwner): Promise<CartWithItems> {
+    const existing = await this.getOpenCart(owner);
+    if (existing) return existing;
+
+    const [created] = await db
+      .insert(carts)
+      .values({ customerId: owner.customerId, userId: owner.userId, status: "OPEN" })
+      .returning();
+    return { ...created, items: [] };
+  }
+
+  // Lines are swapped in one transaction with the cart row locked, so a failed insert or a
+  // concurrent save or merge can never leave the cart empty or half-written
+  async replaceCartItems(cartId: number, items: Partial<CartItem>[], location?: string | null): Promise<CartWithItems> {
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(carts).where(eq(carts.id, cartId)).for("update");
+      // Merged away or checked out while this request was in flight; the caller's lines must not vanish into it
+      if (!locked || locked.status !== "OPEN") throw new Error(`Cart ${cartId} is no longer open`);
+      return this.writeCartItems(tx, cartId, items, location);
+    });
+  }
+
+  private async writeCartItems(tx: DbTransaction, cartId: number, items: Partial<CartItem>[], location?: string | null): Promise<CartWithItems> {
+    await tx.delete(cartItems).where(eq(cartItems.cartId, cartId));
+    if (items.length > 0) {
+      await tx.insert(cartItems).values(items.map((item) => ({ ...item, cartId })) as any);
+    }
+
+    const [cart] = await tx
+      .update(carts)
+      .set({ ...(location !== undefined ? { location } : {}), updatedAt: new Date() })
+      .where(eq(carts.id, cartId))
+      .returning();
+    return this.withItems(cart, tx);
+  }
+
+  async markCartCheckedOut(cartId: number): Promise<void> {
+    await db
+      .update(carts)
+      .set({ status: "CHECKED_OUT", updatedAt: new Date() })
+      .where(eq(carts.id, cartId));
+  }
+
+  /**
+   * Fold every open cart for this owner (and, for customer users, any cart the user
+   * started before being linked to the customer) into the oldest one.
+   * Lines for the same SKU and warehouse have their quantities added. Runs in one
+   * transaction with every cart involved locked, so concurrent merges and saves queue up.
+   */
+  async mergeOpenCarts(owner: CartOwner): Promise<CartWithItems | undefined> {
+    const ownerCondition = owner.customerId !== null
+      ? sql`(${carts.customerId} = ${owner.customerId} OR (${carts.userId} = ${owner.userId} AND ${carts.customerId} IS NULL))`
+      : this.cartOwnerCondition(owner);
+    return await db.transaction(async (tx) => {
+      const openCarts = await tx
+        .select()
+        .from(carts)
+        .where(and(ownerCondition, eq(carts.status, "OPEN")))
+        .orderBy(asc(carts.createdAt), asc(carts.id))
+        .for("update");
+
+      if (openCarts.length === 0) return undefined;
+      const [target, ...others] = openCarts;
+      if (others.length === 0 && target.customerId === owner.customerId) {
+        return this.withItems(target, tx);
+      }
+
+      const merged = new Map<string, Partial<CartItem>>();
+      let location = target.location;
+      for (const cart of openCarts) {
+        const { items } = await this.withItems(cart, tx);
+        for (const item of items) {
+          const key = `${item.sku}::${item.warehouse ?? ""}`;
+          const existing = merged.get(key);
+          if (existing) {
+            existing.quantity = (existing.quantity ?? 0) + item.quantity;
+          } else {
+            const { id: _id, cartId: _cartId, ...rest } = item;
+            merged.set(key, rest);
+          }
+        }
+        location = location ?? cart.location;
+      }
+
+      if (others.length > 0) {
+        await tx.delete(carts).where(inArray(carts.id, others.map((c) => c.id)));
+      }
+      if (target.customerId !== owner.customerId) {
+        await tx.update(carts).set({ customerId: owner.customerId }).where(eq(carts.id, target.id));
+      }
+      return this.writeCartItems(tx, target.id, Array.from(merged.values()), location);
+    });
+  }
+
+  async createQuote(quoteData: Partial<Quote>, lines: Partial<QuoteLine>[] = [], outboxPayload?: unknown): Promise<Quote> {
+    // One transaction so a quote is never stored without the outbox entry that pushes it to Cin7
+    return await db.transaction((tx) => this.insertQuote(tx, { quote: quoteData, lines, outboxPayload }));
+  }
+
+  // Drafts are built once the order number exists, so it can go into the Cin7 Sale payloads
+  async createPortalOrder(orderData: Partial<PortalOrder>, buildDrafts: (order: PortalOrder) => QuoteDraft[]): Promise<{ order: PortalOrder; quotes: Quote[] }> {
+    return await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(portalOrders)
+        .values(orderData as any)
+        .returning();
+      const [order] = await tx
+        .update(portalOrders)
+        .set({ orderNumber: `ORD-${String(inserted.id).padStart(6, "0")}` })
+        .where(eq(portalOrders.id, inserted.id))
+        .returning();
+
+      const created: Quote[] = [];
+      for (const draft of buildDrafts(order)) {
+        created.push(await this.insertQuote(tx, { ...draft, quote: { ...draft.quote, portalOrderId: order.id } }));
+      }
+      return { order, quotes: created };
+    });
+  }
+
+  async updatePortalOrder(id: number, updates: Partial<PortalOrder>): Promise<PortalOrder | undefined> {
+    const [order] = await db
+      .update(portalOrders)
+      .set(updates)
+      .where(eq(portalOrders.id, id))
+      .returning();
+    return order;
+  }
+
+  async getPortalOrderByIdempotencyKey(userId: string, idempotencyKey: string): Promise<PortalOrder | undefined> {
+    const [order] = await db
+      .select()
+      .from(portalOrders)
+      .where(and(eq(portalOrders.userId, userId), eq(portalOrders.idempotencyKey, idempotencyKey)));
+    return order;
+  }
+
+  private async insertQuote(tx: DbTransaction, draft: QuoteDraft): Promise<Quote> {
+    const [quote] = await tx
       .insert(quotes)
-      .values(quoteData as any)
+      .values(draft.quote as any)
       .returning();
+    if (draft.lines.length > 0) {
+      await tx.insert(quoteLines).values(draft.lines.map((line) => ({ ...line, quoteId: quote.id })) as any);
+    }
+    if (quote.status) {
+      await tx.insert(quoteStatusEvents).values({ quoteId: quote.id, toStatus: quote.status, source: "checkout" });
+    }
+    if (draft.outboxPayload !== undefined) {
+      await tx.insert(quoteOutbox).values({ quoteId: quote.id, payload: draft.outboxPayload });
+    }
     return quote;
   }
 
   async getQuotesByCustomerId(customerId: number): Promise<Quote[]> {
-    // This would need to be implemented with proper user tracking in quotes
-    return [];
+    return await db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.customerId, customerId))
+      .orderBy(desc(quotes.createdAt));
+  }
+
+  async getQuotes(filters: QuoteFilters = {}, page = 1, pageSize = 20): Promise<{ quotes: QuoteWithHistory[], total: number }> {
+    const offset = (page - 1) * pageSize;
+    const whereCondition = and(
+      filters.customerId !== undefined ? eq(quotes.customerId, filters.customerId) : undefined,
+      filters.userId !== undefined ? eq(quotes.userId, filters.userId) : undefined,
+      filters.statuses?.length ? inArray(quotes.status, filters.statuses) : undefined,
+    );
+
+    const [quotesResult, countResult] = await Promise.all([
+      db.select({ ...getTableColumns(quotes), orderNumber: portalOrders.orderNumber })
+        .from(quotes)
+        .leftJoin(portalOrders, eq(quotes.portalOrderId, portalOrders.id))
+        .where(whereCondition)
+        .orderBy(desc(quotes.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)` }).from(quotes).where(whereCondition),
+    ]);
+
+    const history = await this.statusHistory(quotesResult.map((q) => q.id));
+    return {
+      quotes: quotesResult.map((q) => ({ ...q, statusHistory: history.filter((e) => e.quoteId === q.id) })),
+      total: Number(countResult[0]?.count || 0),
+    };
+  }
+
+  async getQuoteById(id: number): Promise<QuoteWithLines | undefined> {
+    const [quote] = await db
+      .select({ ...getTableColumns(quotes), orderNumber: portalOrders.orderNumber })
+      .from(quotes)
+      .leftJoin(portalOrders, eq(quotes.portalOrderId, portalOrders.id))
+      .where(eq(quotes.id, id));
+    if (!quote) return undefined;
+
+    const lines = await db
+      .select()
+      .from(quoteLines)
+      .where(eq(quoteLines.quoteId, id))
+      .orderBy(asc(quoteLines.id));
+    const statusHistory = await this.statusHistory([id]);
+    return { ...quote, lines, statusHistory };
+  }
+
+  async getOpenQuotes(excludeStatuses: string[]): Promise<Quote[]> {
+    return await db
+      .select()
+      .from(quotes)
+      .where(and(
+        isNotNull(quotes.erpSaleId),
+        excludeStatuses.length ? or(isNull(quotes.status), notInArray(quotes.status, excludeStatuses)) : undefined,
+      ))
+      .orderBy(asc(quotes.createdAt));
+  }
+
+  async recordQuoteStatus(quote: Quote, toStatus: string, change: QuoteStatusChange = {}): Promise<Quote> {
+    const [updated] = await db
+      .update(quotes)
+      .set({ ...change.updates, status: toStatus, updatedAt: new Date() })
+      .where(eq(quotes.id, quote.id))
+      .returning();
+    await db.insert(quoteStatusEvents).values({
+      quoteId: quote.id,
+      fromStatus: quote.status,
+      toStatus,
+      source: change.source ?? "cin7",
+      ...(change.occurredAt ? { occurredAt: change.occurredAt } : {}),
+    });
+    return updated;
+  }
+
+  async claimOutboxEntryForQuote(quoteId: number): Promise<QuoteOutboxEntry | undefined> {
+    const [entry] = await db
+      .update(quoteOutbox)
+      .set({ status: "SENDING", updatedAt: new Date() })
+      .where(and(eq(quoteOutbox.quoteId, quoteId), eq(quoteOutbox.status, "PENDING")))
+      .returning();
+    return entry;
+  }
+
+  async claimDueOutboxEntries(limit: number): Promise<QuoteOutboxEntry[]> {
+    const due = db
+      .select({ id: quoteOutbox.id })
+      .from(quoteOutbox)
+      .where(and(eq(quoteOutbox.status, "PENDING"), lte(quoteOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(quoteOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(quoteOutbox)
+      .set({ status: "SENDING", updatedAt: new Date() })
+      .where(inArray(quoteOutbox.id, due))
+      .returning();
+  }
+
+  async abandonStaleOutboxEntries(staleBefore: Date, lastError: string): Promise<QuoteOutboxEntry[]> {
+    // SENDING rows older than staleBefore belong to a push that never recorded its outcome
+    return await db
+      .update(quoteOutbox)
+      .set({ status: "DEAD", lastError, updatedAt: new Date() })
+      .where(and(eq(quoteOutbox.status, "SENDING"), lt(quoteOutbox.updatedAt, staleBefore)))
+      .returning();
+  }
+
+  async updateOutboxEntry(id: number, updates: Partial<QuoteOutboxEntry>): Promise<QuoteOutboxEntry | undefined> {
+    const [entry] = await db
+      .update(quoteOutbox)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(quoteOutbox.id, id))
+      .returning();
+    return entry;
+  }
+
+  async requeueDeadOutboxEntry(id: number): Promise<QuoteOutboxEntry | undefined> {
+    const [entry] = await db
+      .update(quoteOutbox)
+      .set({ status: "PENDING", attempts: 0, nextAttemptAt: new Date(), lastError: null, updatedAt: new Date() })
+      .where(and(eq(quoteOutbox.id, id), eq(quoteOutbox.status, "DEAD")))
+      .returning();
+    return entry;
+  }
+
+  async getOutboxEntries(filters: { status?: string } = {}, page = 1, pageSize = 20): Promise<{ entries: OutboxListEntry[], total: number }> {
+    const offset = (page - 1) * pageSize;
+    const whereCondition = filters.status ? eq(quoteOutbox.status, filters.status) : undefined;
+
+    const [entriesResult, countResult] = await Promise.all([
+      db.select({
+          ...getTableColumns(quoteOutbox),
+          companyName: customers.companyName,
+          orderReference: quotes.orderReference,
+          totalAmount: quotes.totalAmount,
+        })
+        .from(quoteOutbox)
+        .innerJoin(quotes, eq(quoteOutbox.quoteId, quotes.id))
+        .leftJoin(customers, eq(quotes.customerId, customers.id))
+        .where(whereCondition)
+        .orderBy(desc(quoteOutbox.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)` }).from(quoteOutbox).where(whereCondition),
+    ]);
+
+    return {
+      entries: entriesResult,
+      total: Number(countResult[0]?.count || 0),
+    };
+  }
+
+  private async statusHistory(quoteIds: number[]): Promise<QuoteStatusEvent[]> {
+    if (quoteIds.length === 0) return [];
+    return await db
+      .select()
+      .from(quoteStatusEvents)
+      .where(inArray(quoteStatusEvents.quoteId, quoteIds))
+      .orderBy(asc(quoteStatusEvents.occurredAt), asc(quoteStatusEvents.id));
+  }
+
+  async getShippingRules(): Promise<ShippingRule[]> {
+    return await db.select().from(shippingRules).orderBy(asc(shippingRules.id));
+  }
+
+  async createShippingRule(ruleData: Partial<ShippingRule>): Promise<ShippingRule> {
+    const [rule] = await db
+      .insert(shippingRules)
+      .values(ruleData as any)
+      .returning();
+    return rule;
+  }
+
+  async updateShippingRule(id: number, updates: Partial<ShippingRule>): Promise<ShippingRule | undefined> {
+    const [rule] = await db
+      .update(shippingRules)
+      .set(updates)
+      .where(eq(shippingRules.id, id))
+      .returning();
+    return rule || undefined;
+  }
+
+  async deleteShippingRule(id: number): Promise<boolean> {
+    const result = await db.delete(shippingRules).where(eq(shippingRules.id, id)).returning();
+    return Array.isArray(result) && result.length > 0;
+  }
+
+  async getSyncWatermark(entity: string): Promise<SyncWatermark | undefined> {
+    const [watermark] = await db.select().from(syncWatermarks).where(eq(syncWatermarks.entity, entity));
+    return watermark || undefined;
+  }
+
+  async upsertSyncWatermark(watermarkData: Partial<SyncWatermark> & { entity: string }): Promise<SyncWatermark> {
+    const existing = await this.getSyncWatermark(watermarkData.entity);
+    if (existing) {
+      const [updated] = await db
+        .update(syncWatermarks)
+        .set({ ...watermarkData, updatedAt: new Date() })
+        .where(eq(syncWatermarks.entity, watermarkData.entity))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(syncWatermarks)
+      .values(watermarkData as any)
+      .returning();
+    return created;
+  }
+
+  async createSyncRun(runData: Partial<SyncRun>): Promise<SyncRun> {
+    const [run] = await db
+      .insert(syncRuns)
+      .values(runData as any)
+      .returning();
+    return run;
+  }
+
+  async finishSyncRun(id: number, updates: Partial<SyncRun>): Promise<SyncRun | undefined> {
+    const [run] = await db
+      .update(syncRuns)
+      .set(updates)
+      .where(eq(syncRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  async getSyncRuns(filters: { syncType?: string; status?: string } = {}, page = 1, pageSize = 50): Promise<{ runs: SyncRun[], total: number }> {
+    const offset = (page - 1) * pageSize;
+    const whereCondition = and(
+      filters.syncType ? eq(syncRuns.syncType, filters.syncType) : undefined,
+      filters.status ? eq(syncRuns.status, filters.status) : undefined,
+    );
+
+    const [runsResult, countResult] = await Promise.all([
+      db.select().from(syncRuns)
+        .where(whereCondition)
+        .orderBy(desc(syncRuns.startedAt))
+        .limit(pageSize)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)` }).from(syncRuns).where(whereCondition),
+    ]);
+
+    return {
+      runs: runsResult,
+      total: Number(countResult[0]?.count || 0),
+    };
+  }
+
+  async getLastSuccessfulSync(syncType: string): Promise<Date | null> {
+    const [run] = await db
+      .select({ finishedAt: syncRuns.finishedAt })
+      .from(syncRuns)
+      .where(and(eq(syncRuns.syncType, syncType), eq(syncRuns.status, 'SUCCESS')))
+      .orderBy(desc(syncRuns.finishedAt))
+      .limit(1);
+    return run?.finishedAt ?? null;
+  }
+
+  // A record Cin7 keeps sending unchanged bumps its occurrence count instead of adding a row
+  async quarantineCin7Records(records: QuarantineRecord[]): Promise<number> {
+    if (records.length === 0) return 0;
+    const rows = records.map((r) => ({
+      entity: r.entity,
+      recordKey: r.recordKey,
+      reason: r.reason,
+      payload: r.payload ?? null,
+      fingerprint: createHash("sha256").update(`${r.entity}:${JSON.stringify(r.payload)}`).digest("hex"),
+    }));
+    const unique = Array.from(new Map(rows.map((r) => [r.fingerprint, r])).values());
+
+    await db
+      .insert(cin7Quarantine)
+      .values(unique)
+      .onConflictDoUpdate({
+        target: cin7Quarantine.fingerprint,
+        set: {
+          reason: sql`excluded.reason`,
+          occurrences: sql`${cin7Quarantine.occurrences} + 1`,
+          lastSeenAt: new Date(),
+        },
+      });
+    return unique.length;
+  }
+
+  async getQuarantinedRecords(filters: { entity?: string } = {}, page = 1, pageSize = 50): Promise<{ entries: Cin7QuarantineEntry[], total: number }> {
+    const offset = (page - 1) * pageSize;
+    const whereCondition = filters.entity ? eq(cin7Quarantine.entity, filters.entity) : undefined;
+
+    const [entries, countResult] = await Promise.all([
+      db.select().from(cin7Quarantine)
+        .where(whereCondition)
+        .orderBy(desc(cin7Quarantine.lastSeenAt))
+        .limit(pageSize)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)` }).from(cin7Quarantine).where(whereCondition),
+    ]);
+
+    return {
+      entries,
+      total: Number(countResult[0]?.count || 0),
+    };
+  }
+
+  async deleteQuarantinedRecord(id: number): Promise<boolean> {
+    const deleted = await db.delete(cin7Quarantine).where(eq(cin7Quarantine.id, id)).returning({ id: cin7Quarantine.id });
+    return deleted.length > 0;
   }
 
   // Admin user methods
@@ -390,11 +1334,12 @@ export class DatabaseStorage implements IStorage {
 
   async createAdminUser(userData: any): Promise<User> {
     const insertData: any = {
-      email: userData.email,
-      password: userData.password,
-      name: userData.name,
+      email: userData.email.toLowerCase(),
+      password: await hashPassword(userData.password),
+      name: userData.name || null,
       customerId: null,
       role: 'admin',
+      createdBy: userData.createdBy || null,
       isActive: true,
     };
     
@@ -403,8 +1348,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteAdminUser(id: string): Promise<boolean> {
-    const result = await db.delete(users).where(eq(users.id, id)).returning();
-    return Array.isArray(result) && result.length > 0;
+    return await db.transaction(async (tx) => {
+      // Accounts this admin created outlive it
+      await tx.update(users).set({ createdBy: null }).where(eq(users.createdBy, id));
+      const result = await tx.delete(users).where(and(eq(users.id, id), eq(users.role, 'admin'))).returning();
+      return Array.isArray(result) && result.length > 0;
+    });
+  }
+
+  async countActiveAdmins(): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(users)
+      .where(and(eq(users.role, 'admin'), eq(users.isActive, true)));
+    return Number(row?.count ?? 0);
   }
 }
 
@@ -1,71 +1,150 @@
-import { cin7Service } from './services/cin7';
+import { cin7Service, type Cin7Product, type Cin7SaleSummary } from './services/cin7';
 import { storage } from './storage';
+import type { Quote } from '@shared/schema';
+import { DEFAULT_TIER_NAME } from './pricing';
+import { TERMINAL_QUOTE_STATUSES, portalStatusFromSale } from './quote-status';
 
 interface SyncResult {
   success: boolean;
   message: string;
   recordsProcessed: number;
+  pagesFetched?: number;
+  upserted?: number;
+  skipped?: number;
   error?: string;
 }
 
+export type SyncTrigger = 'cron' | 'manual' | 'token';
+
+interface SyncOptions {
+  full?: boolean; // ignore the watermark and re-pull everything
+  trigger?: SyncTrigger;
+}
+
+type SyncEntity = 'products' | 'customers' | 'availability' | 'quotes';
+
+// Cin7 Core caps list endpoints at 500 rows per page
+const PRODUCT_PAGE_SIZE = 500;
+
+// Paging stops on a short page; this caps a run if one never comes (200 pages = 100k rows)
+const MAX_PAGES = Number(process.env.SYNC_MAX_PAGES || 200);
+
+// Delta syncs are backed by a periodic full reconcile in case Cin7 misses a LastModified bump
+const FULL_RECONCILE_INTERVAL_MS =
+  Number(process.env.SYNC_FULL_RECONCILE_HOURS || 24) * 60 * 60 * 1000;
+
 /**
  * Secure sync endpoints for production scheduler
  * Called by Cloud Scheduler every 5 minutes (availability) and hourly (products/customers)
  */
 
 export class ProductSyncService {
+
+  /**
+   * Freshness of the locally cached stock: stale while the Cin7 circuit is open,
+   * with the finish time of the last successful availability sync.
+   */
+  static async cacheStatus(): Promise<{ stale: boolean; lastSyncedAt: string | null }> {
+    const lastSynced = await storage.getLastSuccessfulSync('availability');
+    return { stale: cin7Service.isCircuitOpen(), lastSyncedAt: lastSynced?.toISOString() ?? null };
+  }
   
   /**
    * Sync product availability from all warehouses (every 5 minutes)
+   * Warehouses are upserted first so every availability row resolves to a local warehouseId.
    */
-  static async syncAvailability(): Promise<SyncResult> {
+  static async syncAvailability(options: SyncOptions = {}): Promise<SyncResult> {
+    const runId = await this.startSyncRun('availability', options.trigger);
     try {
       console.log('[SYNC] Starting availability sync...');
       
-      const warehouses = await cin7Service.getLocations();
+      const delta = await this.resolveDeltaWindow('availability', options);
+      const locations = await cin7Service.getLocations();
+      const warehouseIds = new Map<string, number>();
       let totalRecords = 0;
+      let skipped = 0;
+      let latestModified: string | null = null;
+      let warehouseFailures = 0;
 
-      for (const warehouse of warehouses) {
+      for (const location of locations) {
+        const warehouse = await storage.upsertWarehouse({ cin7LocationName: location.Name });
+        warehouseIds.set(location.Name, warehouse.id);
+      }
+      console.log(`[SYNC] Mapped ${warehouseIds.size} warehouses`);
+
+      for (const [locationName, defaultWarehouseId] of Array.from(warehouseIds)) {
         try {
-          const availabilityData = await cin7Service.getProductAvailability(
-            warehouse.ID || warehouse.Name || '', 
-            1, 
-            500
-          );
-          
-          // Store availability data in Supabase
-          for (const item of availabilityData.data) {
-            // Find or create product and warehouse records first
-            let product = await storage.getProductBySku(item.SKU);
-            if (!product) {
-              product = await storage.upsertProduct({
-                sku: item.SKU,
-                name: item.Name || item.SKU,
+          let page = 1;
+          let previousPage: string | null = null;
+          for (;;) {
+            const availabilityData = await cin7Service.getProductAvailability(
+              locationName,
+              page,
+              PRODUCT_PAGE_SIZE,
+              delta.modifiedSince
+            );
+            const rows = availabilityData.data;
+            skipped += availabilityData.pagination.rejected;
+            previousPage = this.checkPage(`availability (${locationName})`, page, rows.map((r) => r.SKU), previousPage);
+
+            for (const item of rows) {
+              latestModified = this.laterOf(latestModified, item.LastModified);
+
+              // Find or create the product record first
+              let product = await storage.getProductBySku(item.SKU);
+              if (!product) {
+                product = await storage.upsertProduct({
+                  sku: item.SKU,
+                  name: item.Name || item.SKU,
+                });
+              }
+
+              // Rows carry their own Location; fall back to the location we asked for
+              let warehouseId = item.Location ? warehouseIds.get(item.Location) : defaultWarehouseId;
+              if (warehouseId === undefined && item.Location) {
+                const warehouse = await storage.upsertWarehouse({ cin7LocationName: item.Location });
+                warehouseIds.set(item.Location, warehouse.id);
+                warehouseId = warehouse.id;
+              }
+
+              await storage.upsertAvailability({
+                productId: product.id,
+                warehouseId: warehouseId ?? defaultWarehouseId,
+                onHand: String(item.OnHand ?? 0),
+                allocated: String(item.Allocated ?? 0),
+                available: String(item.Available ?? 0),
+                onOrder: String(item.OnOrder ?? 0),
               });
+              totalRecords++;
             }
 
-            // For now, skip availability sync since it requires warehouse ID mapping
-            // TODO: Implement proper warehouse mapping in production
-            console.log(`[SYNC] Skipping availability for ${item.SKU} - warehouse mapping needed`);
-            totalRecords++;
+            if (availabilityData.pagination.fetched < PRODUCT_PAGE_SIZE) break;
+            page++;
           }
         } catch (warehouseError) {
-          console.error(`[SYNC] Error syncing warehouse ${warehouse.Name}:`, warehouseError);
+          console.error(`[SYNC] Error syncing warehouse ${locationName}:`, warehouseError);
+          warehouseFailures++;
         }
       }
 
-      await this.updateSyncStatus('availability', 'SUCCESS', totalRecords);
-      console.log(`[SYNC] Availability sync complete: ${totalRecords} records`);
+      // A failed warehouse must be re-pulled next time, so hold the watermark
+      if (warehouseFailures === 0) {
+        await this.advanceWatermark('availability', latestModified, delta.full);
+      }
+      await this.updateSyncStatus(runId, 'SUCCESS', totalRecords);
+      console.log(`[SYNC] Availability sync complete: ${totalRecords} records, ${skipped} skipped`);
       
       return {
         success: true,
-        message: `Successfully synced availability for ${totalRecords} products`,
-        recordsProcessed: totalRecords
+        message: `Successfully synced ${totalRecords} availability rows across ${warehouseIds.size} warehouses`,
+        recordsProcessed: totalRecords,
+        upserted: totalRecords,
+        skipped
       };
       
     } catch (error: any) {
       console.error('[SYNC] Availability sync failed:', error);
-      await this.updateSyncStatus('availability', 'ERROR', 0, error.message);
+      await this.updateSyncStatus(runId, 'ERROR', 0, error.message);
       
       return {
         success: false,
@@ -78,41 +157,78 @@ export class ProductSyncService {
 
   /**
    * Sync products from Cin7 (hourly)
+   * Walks every page until Cin7 returns a short page, so the full catalog lands locally.
    */
-  static async syncProducts(): Promise<SyncResult> {
+  static async syncProducts(options: SyncOptions = {}): Promise<SyncResult> {
+    const runId = await this.startSyncRun('products', options.trigger);
     try {
       console.log('[SYNC] Starting products sync...');
       
-      const products = await cin7Service.getProducts({ limit: 500 });
-      let recordsProcessed = 0;
+      const delta = await this.resolveDeltaWindow('products', options);
+      let latestModified: string | null = null;
+      let page = 1;
+      let pagesFetched = 0;
+      let upserted = 0;
+      let skipped = 0;
+      let failed = 0;
+      let previousPage: string | null = null;
 
-      for (const product of products) {
-        try {
-          await storage.upsertProduct({
-            sku: product.SKU,
-            name: product.Name || '',
-            brand: product.Brand || '',
-            barcode: product.Barcode || '',
-            imageUrl: product.ImageURL || '',
-          });
-          recordsProcessed++;
-        } catch (productError) {
-          console.error(`[SYNC] Error syncing product ${product.SKU}:`, productError);
+      for (;;) {
+        const { data: products, pagination } = await cin7Service.getProducts({
+          page,
+          limit: PRODUCT_PAGE_SIZE,
+          modifiedSince: delta.modifiedSince,
+        });
+        pagesFetched++;
+        skipped += pagination.rejected; // quarantined by schema validation
+        previousPage = this.checkPage('products', page, products.map((p) => p.SKU), previousPage);
+
+        for (const product of products) {
+          latestModified = this.laterOf(latestModified, product.LastModified);
+
+          try {
+            const saved = await storage.upsertProduct({
+              sku: product.SKU,
+              name: product.Name,
+              brand: product.Brand,
+              barcode: product.Barcode,
+              imageUrl: product.ImageURL,
+            });
+            await storage.replaceProductPrices(saved.id, this.toPriceRows(product));
+            upserted++;
+          } catch (productError) {
+            console.error(`[SYNC] Error syncing product ${product.SKU}:`, productError);
+            skipped++;
+            failed++;
+          }
         }
+
+        console.log(`[SYNC] Products page ${page}: ${pagination.fetched} rows (${pagination.rejected} quarantined)`);
+        if (pagination.fetched < PRODUCT_PAGE_SIZE) break;
+        page++;
       }
 
-      await this.updateSyncStatus('products', 'SUCCESS', recordsProcessed);
-      console.log(`[SYNC] Products sync complete: ${recordsProcessed} records`);
+      const recordsProcessed = upserted;
+      // Products that failed to save must be re-pulled next time, so hold the watermark
+      if (failed === 0) {
+        await this.advanceWatermark('products', latestModified, delta.full);
+      }
+      const status = failed > 0 ? 'PARTIAL' : 'SUCCESS';
+      await this.updateSyncStatus(runId, status, recordsProcessed, failed > 0 ? `${failed} products failed to save` : undefined);
+      console.log(`[SYNC] Products sync complete: ${upserted} upserted, ${skipped} skipped across ${pagesFetched} pages`);
       
       return {
         success: true,
-        message: `Successfully synced ${recordsProcessed} products`,
-        recordsProcessed
+        message: `Successfully synced ${upserted} products (${skipped} skipped, ${pagesFetched} pages)`,
+        recordsProcessed,
+        pagesFetched,
+        upserted,
+        skipped
       };
       
     } catch (error: any) {
       console.error('[SYNC] Products sync failed:', error);
-      await this.updateSyncStatus('products', 'ERROR', 0, error.message);
+      await this.updateSyncStatus(runId, 'ERROR', 0, error.message);
       
       return {
         success: false,
@@ -124,41 +240,69 @@ export class ProductSyncService {
   }
 
   /**
-   * Sync customers from Cin7 (hourly)
+   * Sync customers from Cin7 (hourly), page by page like products
    */
-  static async syncCustomers(): Promise<SyncResult> {
+  static async syncCustomers(options: SyncOptions = {}): Promise<SyncResult> {
+    const runId = await this.startSyncRun('customers', options.trigger);
     try {
       console.log('[SYNC] Starting customers sync...');
       
-      const customersData = await cin7Service.getCustomers(1, 500);
+      const delta = await this.resolveDeltaWindow('customers', options);
       let recordsProcessed = 0;
+      let latestModified: string | null = null;
+      let page = 1;
+      let pagesFetched = 0;
+      let skipped = 0;
+      let failed = 0;
+      let previousPage: string | null = null;
 
-      for (const customer of customersData.data) {
-        try {
-          await storage.upsertCustomer({
-            erpCustomerId: customer.CustomerCode || customer.ID || '',
-            companyName: customer.CompanyName || customer.Name || '',
-            terms: customer.Terms || customer.PaymentTerms || '',
-            priceTier: customer.PriceTier || 'Wholesale',
-          });
-          recordsProcessed++;
-        } catch (customerError) {
-          console.error(`[SYNC] Error syncing customer ${customer.CustomerCode}:`, customerError);
+      for (;;) {
+        const { data: customers, pagination } = await cin7Service.getCustomers(page, PRODUCT_PAGE_SIZE, delta.modifiedSince);
+        pagesFetched++;
+        skipped += pagination.rejected;
+        previousPage = this.checkPage('customers', page, customers.map((c) => c.CustomerCode || c.ID), previousPage);
+
+        for (const customer of customers) {
+          latestModified = this.laterOf(latestModified, customer.LastModified);
+          try {
+            await storage.upsertCustomer({
+              erpCustomerId: customer.CustomerCode || customer.ID,
+              companyName: customer.CompanyName || customer.Name,
+              terms: customer.Terms || customer.PaymentTerms || '',
+              priceTier: customer.PriceTier || 'Wholesale',
+            });
+            recordsProcessed++;
+          } catch (customerError) {
+            console.error(`[SYNC] Error syncing customer ${customer.CustomerCode}:`, customerError);
+            skipped++;
+            failed++;
+          }
         }
+
+        if (pagination.fetched < PRODUCT_PAGE_SIZE) break;
+        page++;
       }
 
-      await this.updateSyncStatus('customers', 'SUCCESS', recordsProcessed);
-      console.log(`[SYNC] Customers sync complete: ${recordsProcessed} records`);
+      // Customers that failed to save must be re-pulled next time, so hold the watermark
+      if (failed === 0) {
+        await this.advanceWatermark('customers', latestModified, delta.full);
+      }
+      const status = failed > 0 ? 'PARTIAL' : 'SUCCESS';
+      await this.updateSyncStatus(runId, status, recordsProcessed, failed > 0 ? `${failed} customers failed to save` : undefined);
+      console.log(`[SYNC] Customers sync complete: ${recordsProcessed} records, ${skipped} skipped across ${pagesFetched} pages`);
       
       return {
         success: true,
-        message: `Successfully synced ${recordsProcessed} customers`,
-        recordsProcessed
+        message: `Successfully synced ${recordsProcessed} customers (${skipped} skipped, ${pagesFetched} pages)`,
+        recordsProcessed,
+        pagesFetched,
+        upserted: recordsProcessed,
+        skipped
       };
       
     } catch (error: any) {
       console.error('[SYNC] Customers sync failed:', error);
-      await this.updateSyncStatus('customers', 'ERROR', 0, error.message);
+      await this.updateSyncStatus(runId, 'ERROR', 0, error.message);
       
       return {
         success: false,
@@ -170,36 +314,125 @@ export class ProductSyncService {
   }
 
   /**
-   * Full system sync (nightly)
+   * Refresh the status of quotes whose Cin7 sale is still open (every 15 minutes).
+   * Delta runs read saleList since the watermark; a full reconcile looks each open sale up by ID.
+   */
+  static async syncQuoteStatuses(options: SyncOptions = {}): Promise<SyncResult> {
+    const runId = await this.startSyncRun('quotes', options.trigger);
+    try {
+      console.log('[SYNC] Starting quote status sync...');
+
+      const openQuotes = await storage.getOpenQuotes(TERMINAL_QUOTE_STATUSES);
+      if (openQuotes.length === 0) {
+        await this.updateSyncStatus(runId, 'SUCCESS', 0);
+        return { success: true, message: 'No open quotes to refresh', recordsProcessed: 0 };
+      }
+
+      const delta = await this.resolveDeltaWindow('quotes', options);
+      let recordsProcessed = 0;
+      let pagesFetched = 0;
+      let updated = 0;
+      let failed = 0;
+      let latestModified: string | null = null;
+
+      if (delta.full) {
+        for (const quote of openQuotes) {
+          try {
+            const sale = await cin7Service.getSale(quote.erpSaleId!);
+            latestModified = this.laterOf(latestModified, sale.Updated);
+            recordsProcessed++;
+            if (await this.applySaleStatus(quote, sale)) updated++;
+          } catch (saleError: any) {
+            failed++;
+            console.error(`[SYNC] Error refreshing quote ${quote.id} (sale ${quote.erpSaleId}):`, saleError.message);
+          }
+        }
+      } else {
+        const bySaleId = new Map(openQuotes.map((q) => [q.erpSaleId!, q]));
+        let page = 1;
+        let previousPage: string | null = null;
+        while (true) {
+          const { data } = await cin7Service.getSales({ page, limit: PRODUCT_PAGE_SIZE, updatedSince: delta.modifiedSince });
+          pagesFetched++;
+          previousPage = this.checkPage('saleList', page, data.map((s) => s.SaleID), previousPage);
+
+          for (const sale of data) {
+            latestModified = this.laterOf(latestModified, sale.Updated);
+            const quote = bySaleId.get(sale.SaleID);
+            if (!quote) continue;
+            recordsProcessed++;
+            if (await this.applySaleStatus(quote, sale)) updated++;
+          }
+
+          if (data.length < PRODUCT_PAGE_SIZE) break;
+          page++;
+        }
+      }
+
+      // Hold the watermark so sales that failed to load are picked up next run
+      if (failed === 0) {
+        await this.advanceWatermark('quotes', latestModified, delta.full);
+      }
+      const status = failed > 0 ? 'PARTIAL' : 'SUCCESS';
+      await this.updateSyncStatus(runId, status, recordsProcessed, failed > 0 ? `${failed} sales failed to load` : undefined);
+      console.log(`[SYNC] Quote status sync complete: ${recordsProcessed} checked, ${updated} changed`);
+
+      return {
+        success: true,
+        message: `Checked ${recordsProcessed} open quotes, ${updated} status changes`,
+        recordsProcessed,
+        pagesFetched,
+        upserted: updated,
+        skipped: failed,
+      };
+
+    } catch (error: any) {
+      console.error('[SYNC] Quote status sync failed:', error);
+      await this.updateSyncStatus(runId, 'ERROR', 0, error.message);
+
+      return {
+        success: false,
+        message: 'Quote status sync failed',
+        recordsProcessed: 0,
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Full system sync (nightly) - always a full reconcile, ignoring watermarks
    */
-  static async fullSync(): Promise<SyncResult> {
+  static async fullSync(trigger?: SyncTrigger): Promise<SyncResult> {
+    const runId = await this.startSyncRun('full_sync', trigger);
     try {
       console.log('[SYNC] Starting full system sync...');
       
-      const [productsResult, customersResult, availabilityResult] = await Promise.allSettled([
-        this.syncProducts(),
-        this.syncCustomers(),
-        this.syncAvailability()
+      const results = await Promise.allSettled([
+        this.syncProducts({ full: true, trigger }),
+        this.syncCustomers({ full: true, trigger }),
+        this.syncAvailability({ full: true, trigger })
       ]);
 
-      const totalRecords = [productsResult, customersResult, availabilityResult]
+      const totalRecords = results
         .filter(result => result.status === 'fulfilled')
         .reduce((sum, result) => sum + (result.value as SyncResult).recordsProcessed, 0);
 
-      const errors = [productsResult, customersResult, availabilityResult]
-        .filter(result => result.status === 'rejected')
-        .map(result => (result as any).reason?.message)
+      // Individual syncs report failure via success: false rather than rejecting
+      const errors = results
+        .map(result => result.status === 'rejected'
+          ? (result as any).reason?.message
+          : (!result.value.success ? result.value.error || result.value.message : null))
         .filter(Boolean);
 
       if (errors.length === 0) {
-        await this.updateSyncStatus('full_sync', 'SUCCESS', totalRecords);
+        await this.updateSyncStatus(runId, 'SUCCESS', totalRecords);
         return {
           success: true,
           message: `Full sync complete: ${totalRecords} total records`,
           recordsProcessed: totalRecords
         };
       } else {
-        await this.updateSyncStatus('full_sync', 'PARTIAL', totalRecords, errors.join('; '));
+        await this.updateSyncStatus(runId, 'PARTIAL', totalRecords, errors.join('; '));
         return {
           success: false,
           message: `Partial sync: ${totalRecords} records, ${errors.length} errors`,
@@ -210,7 +443,7 @@ export class ProductSyncService {
       
     } catch (error: any) {
       console.error('[SYNC] Full sync failed:', error);
-      await this.updateSyncStatus('full_sync', 'ERROR', 0, error.message);
+      await this.updateSyncStatus(runId, 'ERROR', 0, error.message);
       
       return {
         success: false,
@@ -221,12 +454,128 @@ export class ProductSyncService {
     }
   }
 
-  private static async updateSyncStatus(syncType: string, status: string, recordsProcessed: number, errorMessage?: string) {
+  /**
+   * Decide whether this run is a delta (ModifiedSince = stored watermark) or a full reconcile
+   */
+  private static async resolveDeltaWindow(entity: SyncEntity, options: SyncOptions): Promise<{ full: boolean; modifiedSince?: string }> {
+    if (options.full) return { full: true };
+
+    try {
+      const watermark = await storage.getSyncWatermark(entity);
+      if (!watermark?.lastModified || !watermark.lastFullSyncAt) {
+        return { full: true };
+      }
+      if (Date.now() - watermark.lastFullSyncAt.getTime() >= FULL_RECONCILE_INTERVAL_MS) {
+        console.log(`[SYNC] ${entity}: full reconcile due`);
+        return { full: true };
+      }
+
+      const modifiedSince = watermark.lastModified.toISOString();
+      console.log(`[SYNC] ${entity}: delta sync since ${modifiedSince}`);
+      return { full: false, modifiedSince };
+    } catch (error: any) {
+      console.error(`[SYNC] ${entity}: failed to read watermark, falling back to full sync:`, error.message);
+      return { full: true };
+    }
+  }
+
+  /**
+   * Persist the newest LastModified seen, only ever moving the watermark forward
+   */
+  private static async advanceWatermark(entity: SyncEntity, latestModified: string | null, full: boolean) {
+    try {
+      const existing = await storage.getSyncWatermark(entity);
+      const latest = latestModified ? new Date(latestModified) : null;
+      const lastModified =
+        latest && (!existing?.lastModified || latest > existing.lastModified)
+          ? latest
+          : existing?.lastModified ?? null;
+
+      await storage.upsertSyncWatermark({
+        entity,
+        lastModified,
+        ...(full ? { lastFullSyncAt: new Date() } : {}),
+      });
+    } catch (error: any) {
+      console.error(`[SYNC] ${entity}: failed to store watermark:`, error.message);
+    }
+  }
+
+  /**
+   * Tier prices plus DefaultSellPrice (stored as the 'Default' tier fallback)
+   */
+  private static toPriceRows(product: Cin7Product): { priceTier: string; price: string }[] {
+    const rows = Object.entries(product.PriceTiers || {}).map(([priceTier, price]) => ({
+      priceTier,
+      price: String(price),
+    }));
+    const defaultPrice = Number(product.DefaultSellPrice);
+    if (Number.isFinite(defaultPrice)) {
+      rows.push({ priceTier: DEFAULT_TIER_NAME, price: String(defaultPrice) });
+    }
+    return rows;
+  }
+
+  /**
+   * Record a status change if the Cin7 sale has moved on; returns whether anything changed
+   */
+  private static async applySaleStatus(quote: Quote, sale: Cin7SaleSummary): Promise<boolean> {
+    const next = portalStatusFromSale(sale);
+    if (next === quote.status) return false;
+
+    const occurredAt = sale.Updated && !isNaN(Date.parse(sale.Updated)) ? new Date(sale.Updated) : null;
+    await storage.recordQuoteStatus(quote, next, { occurredAt });
+    console.log(`[SYNC] Quote ${quote.id}: ${quote.status ?? '-'} → ${next}`);
+    return true;
+  }
+
+  /**
+   * Guard a paging loop: throws past MAX_PAGES, or when a full page repeats the previous one
+   * (Cin7 ignoring Page would otherwise loop forever). Returns this page's key for the next call.
+   */
+  private static checkPage(label: string, page: number, keys: (string | undefined)[], previousPage: string | null): string {
+    if (page > MAX_PAGES) {
+      throw new Error(`${label}: stopped after ${MAX_PAGES} pages without reaching the last page`);
+    }
+    const pageKey = keys.join('\n');
+    if (keys.length > 0 && pageKey === previousPage) {
+      throw new Error(`${label}: page ${page} repeats page ${page - 1}, stopping`);
+    }
+    return pageKey;
+  }
+
+  private static laterOf(current: string | null, candidate?: string): string | null {
+    if (!candidate || isNaN(Date.parse(candidate))) return current;
+    if (!current || Date.parse(candidate) > Date.parse(current)) return candidate;
+    return current;
+  }
+
+  /**
+   * Open a sync_runs row for this run; returns null if the history table is unavailable
+   */
+  private static async startSyncRun(syncType: string, trigger: SyncTrigger = 'manual'): Promise<number | null> {
     try {
-      // Log sync status since storage method doesn't exist yet
-      console.log(`[SYNC] ${syncType}: ${status} - ${recordsProcessed} records processed${errorMessage ? ` - Error: ${errorMessage}` : ''}`);
+      const run = await storage.createSyncRun({ syncType, trigger, status: 'RUNNING' });
+      return run.id;
+    } catch (error: any) {
+      console.error(`[SYNC] Failed to record ${syncType} run start:`, error.message);
+      return null;
+    }
+  }
+
+  private static async updateSyncStatus(runId: number | null, status: string, recordsProcessed: number, errorMessage?: string) {
+    try {
+      console.log(`[SYNC] run ${runId ?? '-'}: ${status} - ${recordsProcessed} records processed${errorMessage ? ` - Error: ${errorMessage}` : ''}`);
+      if (runId === null) return;
+
+      await storage.finishSyncRun(runId, {
+        status,
+        recordsProcessed,
+        errorMessage: errorMessage ?? null,
+        finishedAt: new Date(),
+      });
     } catch (error) {
-      console.error('[SYNC] Failed to log sync status:', error);
+      console.error('[SYNC] Failed to record sync status:', error);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * In-memory sliding-window limiter for abuse-prone public endpoints (password reset, login).
+ * Counts hits per key (IP, email, ...) over the last `windowMs`; state is per process and is
+ * lost on restart, which is fine for throttling but not for anything that must be audited.
+ */
+
+interface WindowConfig {
+  limit: number; // hits allowed per window
+  windowMs: number;
+}
+
+export interface ThrottleResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export class SlidingWindowLimiter {
+  private hits = new Map<string, number[]>();
+  private lastSweep = Date.now();
+
+  constructor(private config: WindowConfig) {}
+
+  /** Record a hit for `key` unless it is already over the limit */
+  hit(key: string): ThrottleResult {
+    const now = Date.now();
+    this.sweep(now);
+    const recent = this.recent(key, now);
+
+    if (recent.length >= this.config.limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + this.config.windowMs - now };
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, remaining: this.config.limit - recent.length, retryAfterMs: 0 };
+  }
+
+  /** Hits for `key` in the current window, without recording one */
+  count(key: string): number {
+    return this.recent(key, Date.now()).length;
+  }
+
+  /** Ms until the oldest hit for `key` leaves the window (0 when there are none) */
+  retryAfter(key: string): number {
+    const recent = this.recent(key, Date.now());
+    return recent.length === 0 ? 0 : Math.max(0, recent[0] + this.config.windowMs - Date.now());
+  }
+
+  reset(key: string): void {
+    this.hits.delete(key);
+  }
+
+  private recent(key: string, now: number): number[] {
+    return (this.hits.get(key) || []).filter((t) => now - t < this.config.windowMs);
+  }
+
+  // Drop idle keys once per window so the map doesn't grow with every IP ever seen
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.config.windowMs) return;
+    this.lastSweep = now;
+    this.hits.forEach((_times, key) => {
+      const recent = this.recent(key, now);
+      if (recent.length === 0) this.hits.delete(key);
+      else this.hits.set(key, recent);
+    });
+  }
+}
+
+/** Client IP as Express sees it (trust proxy is enabled, so this honours X-Forwarded-For) */
+export const clientIp = (req: any): string => req.ip || req.socket?.remoteAddress || "unknown";
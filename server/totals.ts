@@ -0,0 +1,105 @@
+import type { Customer, ShippingRule } from "@shared/schema";
+import { cin7Service } from "./services/cin7";
+import { storage } from "./storage";
+import { getRegionDirectory, findRegion } from "./regions";
+import { DEFAULT_CURRENCY } from "./pricing";
+
+/**
+ * Server-side cart totals: subtotal, VAT, shipping and total.
+ * The same numbers are shown in the cart, stored on the quote and sent to Cin7.
+ */
+
+// Cin7 tax rule applied to portal sales; its TaxPercent drives the VAT rate
+const TAX_RULE_NAME = process.env.CIN7_TAX_RULE || "Standard Rate Sales";
+// South African VAT, used until the Cin7 tax rule has been fetched (or if it can't be)
+const FALLBACK_VAT_RATE = Number(process.env.VAT_RATE || 0.15);
+const TAX_RULE_CACHE_TTL_MS = 60 * 60 * 1000;
+
+export interface SummaryLine {
+  sku: string;
+  quantity: number;
+  price?: number | null;
+}
+
+export interface CartSummary {
+  currency: string;
+  subtotal: number;
+  taxRule: string;
+  vatRate: number;
+  vat: number;
+  shipping: number;
+  shippingRule: string | null;
+  total: number;
+}
+
+let cachedRate: { rate: number; loadedAt: number } | null = null;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+async function vatRate(): Promise<number> {
+  if (cachedRate && Date.now() - cachedRate.loadedAt < TAX_RULE_CACHE_TTL_MS) {
+    return cachedRate.rate;
+  }
+
+  let rate = FALLBACK_VAT_RATE;
+  try {
+    const rules = await cin7Service.getTaxRules();
+    const rule = rules.find((r) => r.Name?.toLowerCase() === TAX_RULE_NAME.toLowerCase());
+    if (rule && Number.isFinite(Number(rule.TaxPercent))) {
+      rate = Number(rule.TaxPercent) / 100;
+    } else {
+      console.warn(`[TOTALS] Cin7 tax rule "${TAX_RULE_NAME}" not found, using ${FALLBACK_VAT_RATE * 100}% VAT`);
+    }
+  } catch (error: any) {
+    console.error(`[TOTALS] Failed to load Cin7 tax rules, using ${FALLBACK_VAT_RATE * 100}% VAT:`, error.message);
+  }
+
+  cachedRate = { rate, loadedAt: Date.now() };
+  return rate;
+}
+
+/** Most specific active rule: customer, then region, then global */
+function pickShippingRule(rules: ShippingRule[], customerId: number | null, regionId: number | null): ShippingRule | undefined {
+  const active = rules.filter((r) => r.isActive !== false);
+  return (
+    (customerId !== null ? active.find((r) => r.customerId === customerId) : undefined) ??
+    (regionId !== null ? active.find((r) => r.regionId === regionId && r.customerId === null) : undefined) ??
+    active.find((r) => r.customerId === null && r.regionId === null)
+  );
+}
+
+export async function computeCartSummary(
+  lines: SummaryLine[],
+  options: { customer?: Customer | null; location?: string | null; currency?: string }
+): Promise<CartSummary> {
+  const subtotal = round2(lines.reduce((sum, l) => sum + (l.price ?? 0) * l.quantity, 0));
+
+  const [rate, rules, regions] = await Promise.all([
+    vatRate(),
+    storage.getShippingRules(),
+    getRegionDirectory(),
+  ]);
+  const region = findRegion(regions, options.location);
+  const rule = pickShippingRule(rules, options.customer?.id ?? null, region?.id ?? null);
+
+  let shipping = 0;
+  if (rule && subtotal > 0) {
+    const freeAbove = rule.freeAbove !== null ? parseFloat(rule.freeAbove) : null;
+    shipping = freeAbove !== null && subtotal >= freeAbove ? 0 : parseFloat(rule.flatRate) || 0;
+  }
+  shipping = round2(shipping);
+
+  // VAT applies to goods and shipping alike
+  const vat = round2((subtotal + shipping) * rate);
+
+  return {
+    currency: options.currency || DEFAULT_CURRENCY,
+    subtotal,
+    taxRule: TAX_RULE_NAME,
+    vatRate: rate,
+    vat,
+    shipping,
+    shippingRule: rule?.name ?? null,
+    total: round2(subtotal + shipping + vat),
+  };
+}
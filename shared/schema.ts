@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, numeric, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, numeric, jsonb, timestamp, boolean, primaryKey, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,10 +7,15 @@ import { z } from "zod";
 export const users: any = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
+  name: text("name"),
   password: text("password").notNull(),
   customerId: integer("customer_id").references(() => customers.id),
   role: text("role").default("buyer"), // 'admin', 'buyer'
   isActive: boolean("is_active").default(true),
+  passwordResetRequired: boolean("password_reset_required").default(false), // locked until the user sets a new password
+  lastLoginAt: timestamp("last_login_at"),
+  failedLoginCount: integer("failed_login_count").notNull().default(0), // consecutive failures, reset on success or unlock
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: varchar("created_by").references((): any => users.id),
 });
@@ -43,12 +48,48 @@ export const products = pgTable("products", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Product prices per Cin7 price tier (cached from Cin7)
+export const productPrices = pgTable("product_prices", {
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  priceTier: text("price_tier").notNull(), // Cin7 tier name, e.g. 'Wholesale'; 'Default' holds DefaultSellPrice
+  price: numeric("price").notNull().default("0"),
+  currency: text("currency").default("ZAR"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.productId, table.priceTier] }),
+}));
+
 // Warehouses (cached from Cin7)
 export const warehouses = pgTable("warehouses", {
   id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
   cin7LocationName: text("cin7_location_name").unique().notNull(),
 });
 
+// Customer-facing regions (e.g. JHB, CPT, BFN) grouping one or more Cin7 warehouses
+export const regions = pgTable("regions", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  code: text("code").unique().notNull(), // short label shown in the catalog, e.g. 'JHB'
+  name: text("name").notNull(), // customer-visible name, e.g. 'JHB Warehouse'
+  checkoutLocation: text("checkout_location"), // Cin7 location quotes for this region are raised against
+  sortOrder: integer("sort_order").default(0),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Region <-> warehouse link (a depot can sit in more than one region)
+export const regionWarehouses = pgTable("region_warehouses", {
+  regionId: integer("region_id").notNull().references(() => regions.id, { onDelete: "cascade" }),
+  warehouseId: integer("warehouse_id").notNull().references(() => warehouses.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.regionId, table.warehouseId] }),
+}));
+
+// One-time data bootstraps that have already run (e.g. the default regions), so none runs twice
+export const bootstrapSteps = pgTable("bootstrap_steps", {
+  name: text("name").primaryKey(),
+  completedAt: timestamp("completed_at").defaultNow(),
+});
+
 // Product availability per warehouse
 export const availability = pgTable("availability", {
   productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }),
@@ -61,30 +102,254 @@ export const availability = pgTable("availability", {
   pk: sql`PRIMARY KEY (${table.productId}, ${table.warehouseId})`,
 }));
 
+// Carts (app-native) – one open cart per customer account (or per user without a customer)
+export const carts = pgTable("carts", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }),
+  userId: varchar("user_id"),
+  location: text("location"),
+  status: text("status").notNull().default("OPEN"), // 'OPEN', 'CHECKED_OUT'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const cartItems = pgTable("cart_items", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  cartId: integer("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
+  sku: text("sku").notNull(),
+  quantity: integer("quantity").notNull().default(1),
+  warehouse: text("warehouse"),
+  unitPrice: numeric("unit_price"), // price snapshot taken server-side when the line was saved
+  currency: text("currency").default("ZAR"),
+  priceTier: text("price_tier"),
+  backorderAccepted: boolean("backorder_accepted").default(false), // buyer accepted a stock shortfall on this line
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Portal orders: one checkout, split into one quote (Cin7 Sale) per fulfilling depot
+export const portalOrders = pgTable("portal_orders", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  orderNumber: text("order_number").unique(), // e.g. 'ORD-000042', assigned from the id on insert
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  userId: varchar("user_id"),
+  orderReference: text("order_reference"), // buyer's own PO / reference
+  splitMode: text("split_mode").notNull().default("none"), // 'none', 'warehouse', 'region'
+  idempotencyKey: text("idempotency_key"), // client's Idempotency-Key header, unique per user
+  checkoutResponse: jsonb("checkout_response"), // { statusCode, body } replayed for a repeated key
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  idempotencyKeyPerUser: uniqueIndex("portal_orders_user_idempotency_key_idx").on(table.userId, table.idempotencyKey),
+}));
+
 // Quotes (app-native)
 export const quotes = pgTable("quotes", {
   id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
   erpSaleId: text("erp_sale_id"),
   status: text("status"),
   payload: jsonb("payload"),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  userId: varchar("user_id"),
+  location: text("location"), // Cin7 location the sale was raised against
+  orderReference: text("order_reference"), // buyer's own PO / reference
+  portalOrderId: integer("portal_order_id").references(() => portalOrders.id, { onDelete: "set null" }),
+  currency: text("currency").default("ZAR"),
+  subtotal: numeric("subtotal"),
+  taxRule: text("tax_rule"),
+  taxAmount: numeric("tax_amount"),
+  shippingAmount: numeric("shipping_amount"),
+  totalAmount: numeric("total_amount"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const quoteLines = pgTable("quote_lines", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  sku: text("sku").notNull(),
+  productName: text("product_name"),
+  quantity: integer("quantity").notNull(),
+  unitPrice: numeric("unit_price").notNull().default("0"),
+  lineTotal: numeric("line_total").notNull().default("0"),
+  warehouse: text("warehouse"),
+  backorderQuantity: integer("backorder_quantity").notNull().default(0), // accepted shortfall at checkout
+});
+
+// Quote status history (one row per status change, oldest first)
+export const quoteStatusEvents = pgTable("quote_status_events", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  source: text("source").notNull().default("cin7"), // 'checkout', 'cin7'
+  occurredAt: timestamp("occurred_at").defaultNow(), // Cin7's last-updated time when known
+  recordedAt: timestamp("recorded_at").defaultNow(),
+});
+
+// Outbox of Cin7 quote pushes, written in the same transaction as the quote
+export const quoteOutbox = pgTable("quote_outbox", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  quoteId: integer("quote_id").notNull().unique().references(() => quotes.id, { onDelete: "cascade" }),
+  payload: jsonb("payload").notNull(), // Cin7 Sale body
+  status: text("status").notNull().default("PENDING"), // 'PENDING', 'SENDING', 'SENT', 'DEAD'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastError: text("last_error"),
+  erpSaleId: text("erp_sale_id"), // Cin7 SaleID, saved as soon as the push is accepted
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Shipping rules: a customer rule beats a region rule, which beats the global rule (both null)
+export const shippingRules = pgTable("shipping_rules", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  name: text("name").notNull(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }),
+  regionId: integer("region_id").references(() => regions.id, { onDelete: "cascade" }),
+  flatRate: numeric("flat_rate").notNull().default("0"), // excl. VAT
+  freeAbove: numeric("free_above"), // subtotal (excl. VAT) at which shipping is free; null = never
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sync watermarks (per-entity Cin7 LastModified high-water marks)
+export const syncWatermarks = pgTable("sync_watermarks", {
+  entity: text("entity").primaryKey(), // 'products', 'customers', 'availability'
+  lastModified: timestamp("last_modified"),
+  lastFullSyncAt: timestamp("last_full_sync_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Sync run history (one row per sync attempt)
+export const syncRuns = pgTable("sync_runs", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  syncType: text("sync_type").notNull(), // 'products', 'customers', 'availability', 'full_sync'
+  trigger: text("trigger").notNull(), // 'cron', 'manual', 'token'
+  status: text("status").notNull().default("RUNNING"), // 'RUNNING', 'SUCCESS', 'PARTIAL', 'ERROR'
+  recordsProcessed: integer("records_processed").default(0),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Cin7 records that failed schema validation during a fetch (kept for review, never upserted)
+export const cin7Quarantine = pgTable("cin7_quarantine", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  entity: text("entity").notNull(), // 'product', 'customer', 'availability', 'location'
+  recordKey: text("record_key"), // SKU / ID when the record has one
+  reason: text("reason").notNull(),
+  payload: jsonb("payload"), // the raw record as Cin7 sent it
+  fingerprint: text("fingerprint").notNull().unique(), // hash of entity + payload, so re-fetches don't duplicate
+  occurrences: integer("occurrences").notNull().default(1),
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
+// Emailed password-reset links; only the token's sha256 is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set once the link has been used (or superseded by a reset)
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Admin-issued invitations: the invitee's user row stays inactive until they accept and set a password
+export const userInvitations = pgTable("user_invitations", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // the pending user; cleared if it is removed
+  email: text("email").notNull(),
+  customerId: integer("customer_id").references(() => customers.id),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the emailed token; replaced on resend
+  status: text("status").notNull().default("PENDING"), // PENDING | ACCEPTED | REVOKED
+  expiresAt: timestamp("expires_at").notNull(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  sentCount: integer("sent_count").notNull().default(1),
+  lastSentAt: timestamp("last_sent_at").defaultNow(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit trail of account lockouts (automatic, after repeated failed logins) and admin unlocks
+export const accountLockEvents = pgTable("account_lock_events", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  email: text("email").notNull(), // kept so the record survives the user being deleted
+  event: text("event").notNull(), // LOCKED | UNLOCKED
+  failedAttempts: integer("failed_attempts"),
+  lockedUntil: timestamp("locked_until"),
+  ip: text("ip"),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // admin who unlocked
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Relations
+export const cartsRelations = relations(carts, ({ many }) => ({
+  items: many(cartItems),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, { fields: [cartItems.cartId], references: [carts.id] }),
+}));
+
 export const usersRelations = relations(users, ({ one }) => ({
   customer: one(customers, { fields: [users.customerId], references: [customers.id] }),
 }));
 
 export const customersRelations = relations(customers, ({ many }) => ({
   users: many(users),
+  quotes: many(quotes),
+}));
+
+export const portalOrdersRelations = relations(portalOrders, ({ one, many }) => ({
+  customer: one(customers, { fields: [portalOrders.customerId], references: [customers.id] }),
+  quotes: many(quotes),
+}));
+
+export const quotesRelations = relations(quotes, ({ one, many }) => ({
+  customer: one(customers, { fields: [quotes.customerId], references: [customers.id] }),
+  portalOrder: one(portalOrders, { fields: [quotes.portalOrderId], references: [portalOrders.id] }),
+  lines: many(quoteLines),
+  statusEvents: many(quoteStatusEvents),
+  outbox: one(quoteOutbox),
+}));
+
+export const quoteLinesRelations = relations(quoteLines, ({ one }) => ({
+  quote: one(quotes, { fields: [quoteLines.quoteId], references: [quotes.id] }),
+}));
+
+export const quoteStatusEventsRelations = relations(quoteStatusEvents, ({ one }) => ({
+  quote: one(quotes, { fields: [quoteStatusEvents.quoteId], references: [quotes.id] }),
+}));
+
+export const quoteOutboxRelations = relations(quoteOutbox, ({ one }) => ({
+  quote: one(quotes, { fields: [quoteOutbox.quoteId], references: [quotes.id] }),
 }));
 
 export const productsRelations = relations(products, ({ many }) => ({
   availability: many(availability),
+  prices: many(productPrices),
+}));
+
+export const productPricesRelations = relations(productPrices, ({ one }) => ({
+  product: one(products, { fields: [productPrices.productId], references: [products.id] }),
 }));
 
 export const warehousesRelations = relations(warehouses, ({ many }) => ({
   availability: many(availability),
+  regionWarehouses: many(regionWarehouses),
+}));
+
+export const regionsRelations = relations(regions, ({ many }) => ({
+  regionWarehouses: many(regionWarehouses),
+}));
+
+export const regionWarehousesRelations = relations(regionWarehouses, ({ one }) => ({
+  region: one(regions, { fields: [regionWarehouses.regionId], references: [regions.id] }),
+  warehouse: one(warehouses, { fields: [regionWarehouses.warehouseId], references: [warehouses.id] }),
 }));
 
 export const availabilityRelations = relations(availability, ({ one }) => ({
@@ -101,14 +366,35 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertCustomerSchema = createInsertSchema(customers);
 export const insertProductSchema = createInsertSchema(products);
 export const insertWarehouseSchema = createInsertSchema(warehouses);
+export const insertRegionSchema = createInsertSchema(regions);
 export const insertAvailabilitySchema = createInsertSchema(availability);
 export const insertQuoteSchema = createInsertSchema(quotes);
+export const insertShippingRuleSchema = createInsertSchema(shippingRules);
 
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Customer = typeof customers.$inferSelect;
 export type Product = typeof products.$inferSelect;
+export type ProductPrice = typeof productPrices.$inferSelect;
 export type Warehouse = typeof warehouses.$inferSelect;
+export type Region = typeof regions.$inferSelect;
+export type RegionWithWarehouses = Region & { warehouses: Warehouse[] };
 export type Availability = typeof availability.$inferSelect;
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type CartWithItems = Cart & { items: CartItem[] };
+export type PortalOrder = typeof portalOrders.$inferSelect;
 export type Quote = typeof quotes.$inferSelect;
+export type QuoteLine = typeof quoteLines.$inferSelect;
+export type QuoteStatusEvent = typeof quoteStatusEvents.$inferSelect;
+export type QuoteWithHistory = Quote & { orderNumber: string | null; statusHistory: QuoteStatusEvent[] };
+export type QuoteWithLines = QuoteWithHistory & { lines: QuoteLine[] };
+export type QuoteOutboxEntry = typeof quoteOutbox.$inferSelect;
+export type ShippingRule = typeof shippingRules.$inferSelect;
+export type SyncWatermark = typeof syncWatermarks.$inferSelect;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type Cin7QuarantineEntry = typeof cin7Quarantine.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type AccountLockEvent = typeof accountLockEvents.$inferSelect;